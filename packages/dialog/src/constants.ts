@@ -1,4 +1,4 @@
-import type { DialogSize } from "./types";
+import type { DialogKeymap, DialogSize } from "./types";
 
 export const DEFAULT_SIZE: DialogSize = "medium";
 
@@ -13,5 +13,46 @@ export const FULL_SIZE_OFFSET = 4;
 
 export const DIALOG_Z_INDEX = 9998;
 
+export const DEFAULT_TRANSITION_DURATION = 150;
+
+/** Frame interval for transitions (~60fps). */
+export const TRANSITION_FRAME_INTERVAL = 16;
+
+/** Starting width ratio for the "scale" transition preset. */
+export const TRANSITION_SCALE_FROM = 0.8;
+
+export const DEFAULT_CONFIRM_LABEL = "OK";
+
+export const DEFAULT_CANCEL_LABEL = "Cancel";
+
+export const DEFAULT_MASK_CHAR = "*";
+
+export const DEFAULT_BACK_LABEL = "Back";
+
+export const DEFAULT_NEXT_LABEL = "Next";
+
+export const DEFAULT_FINISH_LABEL = "Finish";
+
+export const CLOSE_BUTTON_GLYPH = "✕";
+
+/** Drawn in the bottom-right corner of resizable dialogs. */
+export const RESIZE_HANDLE_GLYPH = "◢";
+
+/** Smallest size a dialog can be resized to with the mouse. */
+export const MIN_RESIZE_WIDTH = 10;
+export const MIN_RESIZE_HEIGHT = 3;
+
+export const DEFAULT_KEYMAP: Required<DialogKeymap> = {
+  close: "escape",
+  defaultAction: "return",
+  ctrlC: "ignore",
+};
+
+/** Options visible at once in the built-in select dialog before scrolling. */
+export const MAX_VISIBLE_SELECT_OPTIONS = 8;
+
 /** @internal Used by React/Solid bindings for JSX portals */
 export const JSX_CONTENT_KEY = Symbol("dialog-jsx-content");
+
+/** @internal Used by React/Solid bindings for JSX footer portals */
+export const JSX_FOOTER_KEY = Symbol("dialog-jsx-footer");
@@ -0,0 +1,28 @@
+import type { DialogId } from "./types";
+
+/**
+ * Rejection reason for async dialogs opened with `rejectOnAbort: true`
+ * when their `signal` aborts or their `timeout` elapses.
+ */
+export class DialogAbortedError extends Error {
+  override readonly name = "DialogAbortedError";
+  /** ID of the dialog that was closed. */
+  readonly dialogId: DialogId;
+  /** Whether the dialog was closed by its `signal` or its `timeout`. */
+  readonly reason: "abort" | "timeout";
+
+  constructor(
+    dialogId: DialogId,
+    reason: "abort" | "timeout",
+    cause?: unknown,
+  ) {
+    super(
+      reason === "timeout"
+        ? `[@opentui-ui/dialog] Dialog "${dialogId}" timed out.`
+        : `[@opentui-ui/dialog] Dialog "${dialogId}" was aborted.`,
+      { cause },
+    );
+    this.dialogId = dialogId;
+    this.reason = reason;
+  }
+}
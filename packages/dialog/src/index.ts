@@ -1,11 +1,16 @@
 // Core
 
+export { DialogAbortedError } from "./errors";
 // Async Dialog Options (for imperative/core usage)
 export type {
   AlertOptions,
   ChoiceOptions,
   ConfirmOptions,
+  InputOptions,
   PromptOptions,
+  SelectOptions,
+  WizardOptions,
+  WizardStep,
 } from "./manager";
 export { DialogManager } from "./manager";
 // Context Types (for content functions)
@@ -15,26 +20,77 @@ export type {
   ConfirmContext,
   DialogState,
   PromptContext,
+  WizardContext,
 } from "./prompts";
-export { DialogContainerRenderable } from "./renderables";
+export {
+  DialogContainerEvents,
+  DialogContainerRenderable,
+} from "./renderables";
 // Themes
 export { type DialogTheme, themes } from "./themes";
 // Configuration Types
 // Base Types (for building custom adapters)
 export type {
+  AsyncDialogAbortOptions,
   AsyncDialogOptions,
   BaseAlertOptions,
   BaseChoiceOptions,
   BaseConfirmOptions,
   BaseDialogActions,
+  BaseInputOptions,
   BasePromptOptions,
+  BaseSelectOptions,
+  BaseWizardOptions,
+  BaseWizardStep,
+  BuiltinPromptText,
   Dialog,
+  DialogAnchor,
+  DialogBackdropMode,
+  DialogBackdropOpacity,
+  DialogClosedEvent,
+  DialogCloseReason,
+  DialogClosingEvent,
+  DialogComponent,
   DialogContainerOptions,
   DialogContentFactory,
+  DialogCtrlCBehavior,
+  DialogDimensions,
+  DialogDismissedEvent,
+  DialogDismissReason,
+  DialogEasing,
+  DialogEvent,
+  DialogEventListener,
+  DialogEventMap,
+  DialogEventName,
+  DialogFocusRestoredEvent,
   DialogId,
+  DialogInitialFocus,
+  DialogKeyBinding,
+  DialogKeyHandlers,
+  DialogKeymap,
+  DialogKeys,
+  DialogManagerOptions,
+  DialogMode,
+  DialogOpenedEvent,
+  DialogOpenOptions,
+  DialogOpenReason,
+  DialogPlacement,
+  DialogPosition,
+  DialogResolvedEvent,
+  DialogReturnFocus,
+  DialogSelectOption,
   DialogShowOptions,
   DialogSize,
+  DialogSizePreset,
   DialogStyle,
   DialogToClose,
+  DialogTransition,
+  DialogTransitionPreset,
+  DialogUpdatedEvent,
+  DialogUpdateReason,
+  SerializedDialog,
+  SerializedDialogState,
 } from "./types";
 export { isDialogToClose } from "./types";
+// Key Bindings
+export { type DialogKeyInput, matchesKeyBinding } from "./utils";
@@ -0,0 +1,275 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { BoxRenderable, type RenderContext } from "@opentui/core";
+import { createTestRenderer, type TestRenderer } from "@opentui/core/testing";
+import { DialogAbortedError } from "./errors";
+import { DialogManager } from "./manager";
+import type { DialogCloseReason } from "./types";
+
+const content = (ctx: RenderContext) => new BoxRenderable(ctx, {});
+
+let renderer: TestRenderer;
+let manager: DialogManager;
+
+beforeEach(async () => {
+  ({ renderer } = await createTestRenderer({ width: 80, height: 24 }));
+  manager = new DialogManager(renderer);
+});
+
+afterEach(() => {
+  manager.destroy();
+  renderer.destroy();
+});
+
+describe("onBeforeClose", () => {
+  test("keeps the dialog open when it returns false", () => {
+    const reasons: DialogCloseReason[] = [];
+    const id = manager.show({
+      content,
+      onBeforeClose: (reason) => {
+        reasons.push(reason);
+        return false;
+      },
+    });
+
+    expect(manager.close(id, "escape")).toBeUndefined();
+    expect(manager.getDialogs().map((d) => d.id)).toEqual([id]);
+    expect(reasons).toEqual(["escape"]);
+  });
+
+  test("keeps an async dialog pending when it vetoes the resolve", async () => {
+    let resolve: (value: string) => void = () => {};
+    let settled = false;
+    manager
+      .prompt<string>((ctx) => {
+        resolve = ctx.resolve;
+        return { content, onBeforeClose: () => false };
+      })
+      .then(() => {
+        settled = true;
+      });
+
+    resolve("value");
+    await Bun.sleep(0);
+
+    expect(settled).toBe(false);
+    expect(manager.isOpen()).toBe(true);
+  });
+});
+
+describe("abort and timeout", () => {
+  test("abort closes past a veto and resolves with the fallback", async () => {
+    const controller = new AbortController();
+    const reasons: DialogCloseReason[] = [];
+    const result = manager.confirm({
+      content: (ctx) => content(ctx),
+      signal: controller.signal,
+      fallback: true,
+      onBeforeClose: () => false,
+      onClose: (reason) => reasons.push(reason),
+    });
+
+    expect(manager.isOpen()).toBe(true);
+    controller.abort();
+
+    expect(await result).toBe(true);
+    expect(manager.isOpen()).toBe(false);
+    expect(reasons).toEqual(["abort"]);
+  });
+
+  test("the dialog is gone before the promise settles", async () => {
+    const controller = new AbortController();
+    const result = manager.prompt<string>({
+      content: (ctx) => content(ctx),
+      signal: controller.signal,
+      onBeforeClose: () => false,
+    });
+
+    controller.abort();
+    await result;
+
+    expect(manager.getDialogs()).toHaveLength(0);
+  });
+
+  test("timeout rejects with DialogAbortedError when rejectOnAbort is set", async () => {
+    const result = manager.prompt<string>({
+      content: (ctx) => content(ctx),
+      timeout: 5,
+      rejectOnAbort: true,
+      onBeforeClose: () => false,
+    });
+
+    const error = await result.catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DialogAbortedError);
+    expect((error as DialogAbortedError).reason).toBe("timeout");
+    expect(manager.isOpen()).toBe(false);
+  });
+
+  test("an already aborted signal settles without showing the dialog", async () => {
+    const events: string[] = [];
+    for (const event of ["opened", "closing", "closed", "dismissed"] as const) {
+      manager.on(event, () => events.push(event));
+    }
+
+    const result = await manager.prompt<string>({
+      content: (ctx) => content(ctx),
+      signal: AbortSignal.abort(),
+      fallback: "fallback",
+    });
+
+    expect(result).toBe("fallback");
+    expect(events).toEqual([]);
+  });
+
+  test("an already aborted signal rejects when rejectOnAbort is set", async () => {
+    const error = await manager
+      .prompt<string>({
+        content: (ctx) => content(ctx),
+        signal: AbortSignal.abort(),
+        rejectOnAbort: true,
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DialogAbortedError);
+    expect((error as DialogAbortedError).reason).toBe("abort");
+  });
+
+  test("the timeout of a queued dialog starts when it opens", async () => {
+    const queued = new DialogManager(renderer, { mode: "queue" });
+    queued.show({ id: "open", content });
+    let settled = false;
+    const result = queued
+      .prompt<string>({ content: (ctx) => content(ctx), timeout: 20 })
+      .then(() => {
+        settled = true;
+      });
+
+    await Bun.sleep(40);
+    expect(settled).toBe(false);
+    expect(queued.getQueue()).toHaveLength(1);
+
+    queued.close("open");
+    await result;
+    expect(queued.isOpen()).toBe(false);
+    queued.destroy();
+  });
+
+  test("abort removes a queued dialog", async () => {
+    const queued = new DialogManager(renderer, { mode: "queue" });
+    const controller = new AbortController();
+    queued.show({ content });
+
+    const result = queued.prompt<string>({
+      content: (ctx) => content(ctx),
+      signal: controller.signal,
+    });
+    expect(queued.getQueue()).toHaveLength(1);
+
+    controller.abort();
+
+    expect(await result).toBeUndefined();
+    expect(queued.getQueue()).toHaveLength(0);
+    queued.destroy();
+  });
+});
+
+describe("queue mode", () => {
+  let queued: DialogManager;
+
+  beforeEach(() => {
+    queued = new DialogManager(renderer, { mode: "queue" });
+  });
+
+  afterEach(() => {
+    queued.destroy();
+  });
+
+  const ids = (dialogs: readonly { id: unknown }[]) => dialogs.map((d) => d.id);
+
+  test("queues by priority, first in first out within a priority", () => {
+    queued.show({ id: "open", content });
+    queued.show({ id: "low", content });
+    queued.show({ id: "high", content, priority: 10 });
+    queued.show({ id: "high-2", content, priority: 10 });
+    queued.show({ id: "mid", content, priority: 5 });
+
+    expect(ids(queued.getDialogs())).toEqual(["open"]);
+    expect(ids(queued.getQueue())).toEqual(["high", "high-2", "mid", "low"]);
+  });
+
+  test("shows the next queued dialog when the open one closes", () => {
+    queued.show({ id: "open", content });
+    queued.show({ id: "low", content });
+    queued.show({ id: "high", content, priority: 1 });
+
+    queued.close("open");
+    expect(ids(queued.getDialogs())).toEqual(["high"]);
+    expect(ids(queued.getQueue())).toEqual(["low"]);
+
+    queued.close("high");
+    expect(ids(queued.getDialogs())).toEqual(["low"]);
+    expect(queued.getQueue()).toHaveLength(0);
+  });
+
+  test("showing a queued dialog again re-sorts it by its new priority", () => {
+    queued.show({ id: "open", content });
+    queued.show({ id: "a", content });
+    queued.show({ id: "b", content });
+
+    queued.show({ id: "b", content, priority: 1 });
+
+    expect(ids(queued.getQueue())).toEqual(["b", "a"]);
+  });
+
+  test("non-modal dialogs skip the queue", () => {
+    queued.show({ id: "open", content });
+    queued.show({ id: "panel", content, modal: false });
+
+    expect(ids(queued.getDialogs())).toEqual(["open", "panel"]);
+    expect(queued.getQueue()).toHaveLength(0);
+  });
+
+  test("closeAll() drops the queue without showing it", () => {
+    const opened: unknown[] = [];
+    queued.on("opened", ({ id }) => opened.push(id));
+
+    queued.show({ id: "open", content });
+    queued.show({ id: "a", content });
+    queued.show({ id: "b", content });
+    queued.closeAll();
+
+    expect(queued.isOpen()).toBe(false);
+    expect(queued.getQueue()).toHaveLength(0);
+    expect(opened).toEqual(["open"]);
+  });
+
+  test("subscribeQueue() receives queue changes, subscribe() only dialogs", () => {
+    const queues: unknown[][] = [];
+    const published: object[] = [];
+    queued.subscribeQueue((queue) => queues.push(ids(queue)));
+    queued.subscribe((data) => published.push(data));
+
+    queued.show({ id: "open", content });
+    queued.show({ id: "a", content });
+    queued.close("open");
+
+    expect(queues).toEqual([["a"], []]);
+    for (const data of published) {
+      expect("queue" in data).toBe(false);
+    }
+  });
+
+  test("the unsubscribe function stops queue updates", () => {
+    let calls = 0;
+    const unsubscribe = queued.subscribeQueue(() => {
+      calls++;
+    });
+
+    queued.show({ id: "open", content });
+    queued.show({ id: "a", content });
+    unsubscribe();
+    queued.show({ id: "b", content });
+
+    expect(calls).toBe(1);
+  });
+});
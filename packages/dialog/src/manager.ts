@@ -1,24 +1,54 @@
 import type { Renderable, RenderContext } from "@opentui/core";
+import { DialogAbortedError } from "./errors";
 import type {
   AlertContext,
   ChoiceContext,
   ConfirmContext,
   PromptContext,
+  WizardContext,
 } from "./prompts";
+import {
+  createConfirmContent,
+  createInputContent,
+  createSelectContent,
+  createWizardFooter,
+  getConfirmButtonId,
+} from "./prompts/builtins";
 import type {
+  AsyncDialogAbortOptions,
   AsyncDialogOptions,
   BaseAlertOptions,
   BaseChoiceOptions,
   BaseConfirmOptions,
+  BaseInputOptions,
   BasePromptOptions,
+  BaseSelectOptions,
+  BaseWizardOptions,
+  BaseWizardStep,
   Dialog,
+  DialogCloseReason,
+  DialogComponent,
+  DialogDismissReason,
+  DialogEvent,
+  DialogEventListener,
+  DialogEventMap,
+  DialogEventName,
   DialogId,
+  DialogManagerOptions,
+  DialogMode,
+  DialogOpenOptions,
+  DialogReturnFocus,
   DialogShowOptions,
   DialogToClose,
+  SerializedDialog,
+  SerializedDialogState,
 } from "./types";
+import { isModalDialog } from "./types";
 
 type DialogSubscriber = (data: Dialog | DialogToClose) => void;
 
+type DialogQueueSubscriber = (queue: readonly Dialog[]) => void;
+
 /** Content factory for prompt dialogs. */
 type PromptContent<T> = (
   renderCtx: RenderContext,
@@ -43,6 +73,12 @@ type ChoiceContent<K> = (
   choiceCtx: ChoiceContext<K>,
 ) => Renderable;
 
+/** Content factory for wizard steps. */
+type WizardContent<T> = (
+  renderCtx: RenderContext,
+  wizardCtx: WizardContext<T>,
+) => Renderable;
+
 /**
  * Options for a generic prompt dialog using core renderables.
  * @template T The type of value the prompt resolves to.
@@ -67,11 +103,40 @@ export interface AlertOptions extends BaseAlertOptions<AlertContent> {}
 export interface ChoiceOptions<K>
   extends BaseChoiceOptions<ChoiceContent<K>, K> {}
 
+/**
+ * Options for an input dialog using core renderables.
+ * Omit `content` to use the built-in text input.
+ */
+export interface InputOptions extends BaseInputOptions<PromptContent<string>> {}
+
+/**
+ * Options for a select dialog using core renderables.
+ * Omit `content` to use the built-in option list.
+ * @template K The type of the option values.
+ */
+export interface SelectOptions<K>
+  extends BaseSelectOptions<ChoiceContent<K>, K> {}
+
+/**
+ * A wizard step using core renderables.
+ * @template T The combined data of all steps.
+ */
+export interface WizardStep<T> extends BaseWizardStep<T, WizardContent<T>> {}
+
+/**
+ * Options for a wizard dialog using core renderables.
+ * @template T The combined data of all steps.
+ */
+export interface WizardOptions<T>
+  extends BaseWizardOptions<T, WizardContent<T>> {}
+
 /**
  * Extended DialogShowOptions for async dialog factory functions.
  * @template T The type of value returned on dismiss.
  */
-export interface AsyncShowOptions<T> extends DialogShowOptions {
+export interface AsyncShowOptions<T>
+  extends DialogShowOptions,
+    AsyncDialogAbortOptions {
   /** Fallback value when dialog is dismissed via ESC or backdrop click. */
   fallback?: T;
 }
@@ -91,15 +156,29 @@ export interface AsyncShowOptions<T> extends DialogShowOptions {
  */
 export class DialogManager {
   private dialogs: Dialog[] = [];
+  private queue: Dialog[] = [];
+  private mode: DialogMode;
   private subscribers = new Set<DialogSubscriber>();
+  private queueSubscribers = new Set<DialogQueueSubscriber>();
   private idCounter = 1;
   private savedFocus: Renderable | null = null;
+  private pendingCloses = new Set<DialogId>();
+  private components = new Map<string, DialogComponent<unknown>>();
+  /** Type and props of the dialogs opened with `open()`. */
+  private opened = new Map<DialogId, SerializedDialog>();
+  private listeners = new Map<
+    DialogEventName,
+    Set<(event: DialogEvent) => void>
+  >();
+  /** When each open dialog opened, for event durations. */
+  private openedAt = new Map<DialogId, number>();
   private ctx: RenderContext;
   private focusRestoreTimeout?: ReturnType<typeof setTimeout>;
   private destroyed = false;
 
-  constructor(ctx: RenderContext) {
+  constructor(ctx: RenderContext, options: DialogManagerOptions = {}) {
     this.ctx = ctx;
+    this.mode = options.mode ?? "stack";
   }
 
   private saveFocus(): void {
@@ -115,25 +194,41 @@ export class DialogManager {
     }
   }
 
-  private restoreFocus(): void {
+  private restoreFocus(
+    returnFocus: DialogReturnFocus | false | undefined,
+    id: DialogId,
+    reason: DialogCloseReason,
+  ): void {
     this.cancelPendingFocusRestore();
 
-    if (this.savedFocus && !this.savedFocus.isDestroyed) {
-      // Defer to next tick to ensure dialog is fully removed from render tree
-      this.focusRestoreTimeout = setTimeout(() => {
-        if (
-          !this.destroyed &&
-          this.savedFocus &&
-          !this.savedFocus.isDestroyed
-        ) {
-          this.savedFocus.focus();
-        }
-        this.savedFocus = null;
-        this.focusRestoreTimeout = undefined;
-      }, 1);
-    } else {
+    // The focus saved on open only applies once the last dialog closes
+    const isLastDialog = this.dialogs.length === 0;
+    const savedFocus = isLastDialog ? this.savedFocus : null;
+    if (isLastDialog) {
       this.savedFocus = null;
     }
+
+    if (returnFocus === false) {
+      return;
+    }
+
+    if (returnFocus === undefined && !savedFocus) {
+      return;
+    }
+
+    // Defer to next tick to ensure dialog is fully removed from render tree
+    this.focusRestoreTimeout = setTimeout(() => {
+      this.focusRestoreTimeout = undefined;
+      if (this.destroyed) return;
+
+      const target =
+        (typeof returnFocus === "function" ? returnFocus() : returnFocus) ??
+        savedFocus;
+      if (target && !target.isDestroyed) {
+        target.focus();
+        this.emit("focusRestored", { id, reason, target });
+      }
+    }, 1);
   }
 
   /** Subscribe to dialog state changes. Returns an unsubscribe function. */
@@ -144,6 +239,76 @@ export class DialogManager {
     };
   }
 
+  /**
+   * Subscribe to changes of the pending queue in `queue` mode.
+   * Returns an unsubscribe function.
+   */
+  subscribeQueue(subscriber: DialogQueueSubscriber): () => void {
+    this.queueSubscribers.add(subscriber);
+    return () => {
+      this.queueSubscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Listen to dialog lifecycle events, e.g. to log the flow or measure how
+   * long dialogs stay open. Returns a function that stops listening.
+   *
+   * @example
+   * ```ts
+   * manager.on("closed", ({ id, reason, duration }) => {
+   *   analytics.track("dialog_closed", { id, reason, duration });
+   * });
+   * ```
+   */
+  on<K extends DialogEventName>(
+    event: K,
+    listener: DialogEventListener<K>,
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as (event: DialogEvent) => void);
+
+    return () => this.off(event, listener);
+  }
+
+  /** Stop calling a listener added with `on()`. */
+  off<K extends DialogEventName>(
+    event: K,
+    listener: DialogEventListener<K>,
+  ): void {
+    this.listeners.get(event)?.delete(listener as (event: DialogEvent) => void);
+  }
+
+  private emit<K extends DialogEventName>(
+    type: K,
+    data: Omit<DialogEventMap[K], "type" | "timestamp">,
+  ): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners || listeners.size === 0) return;
+
+    const event = { ...data, type, timestamp: Date.now() } as DialogEvent;
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(
+          "[@opentui-ui/dialog] Event listener threw an error:",
+          error,
+        );
+      }
+    }
+  }
+
+  /** Milliseconds since a dialog opened, or 0 if it never did. */
+  private getOpenDuration(id: DialogId): number {
+    const openedAt = this.openedAt.get(id);
+    return openedAt === undefined ? 0 : Date.now() - openedAt;
+  }
+
   private publish(data: Dialog | DialogToClose): void {
     for (const subscriber of this.subscribers) {
       try {
@@ -156,9 +321,47 @@ export class DialogManager {
 
   private addDialog(data: Dialog): void {
     this.dialogs = [...this.dialogs, data];
+    this.openedAt.set(data.id, Date.now());
     this.publish(data);
   }
 
+  private setQueue(queue: Dialog[]): void {
+    this.queue = queue;
+    for (const subscriber of this.queueSubscribers) {
+      try {
+        subscriber(queue);
+      } catch (error) {
+        console.error(
+          "[@opentui-ui/dialog] Queue subscriber threw an error:",
+          error,
+        );
+      }
+    }
+  }
+
+  /** Insert behind every queued dialog with the same or higher priority. */
+  private enqueue(dialog: Dialog): void {
+    const priority = dialog.priority ?? 0;
+    const index = this.queue.findIndex((d) => (d.priority ?? 0) < priority);
+    const insertAt = index === -1 ? this.queue.length : index;
+
+    this.setQueue([
+      ...this.queue.slice(0, insertAt),
+      dialog,
+      ...this.queue.slice(insertAt),
+    ]);
+  }
+
+  private showNextQueued(): void {
+    const [next, ...rest] = this.queue;
+    if (!next) return;
+
+    this.setQueue(rest);
+    this.addDialog(next);
+    this.emit("opened", { id: next.id, reason: "dequeued", dialog: next });
+    next.onOpen?.();
+  }
+
   /**
    * Show a new dialog.
    *
@@ -210,8 +413,16 @@ export class DialogManager {
         : this.idCounter++;
 
     const existingIndex = this.dialogs.findIndex((d) => d.id === id);
+    const queuedIndex = this.queue.findIndex((d) => d.id === id);
 
-    if (existingIndex !== -1) {
+    if (queuedIndex !== -1) {
+      const queued = this.queue[queuedIndex];
+      if (queued) {
+        // Re-insert so a changed priority takes effect
+        this.queue = this.queue.filter((d) => d.id !== id);
+        this.enqueue({ ...queued, ...options, id });
+      }
+    } else if (existingIndex !== -1) {
       const existing = this.dialogs[existingIndex];
       if (existing) {
         const updated: Dialog = { ...existing, ...options, id };
@@ -221,7 +432,14 @@ export class DialogManager {
           ...this.dialogs.slice(existingIndex + 1),
         ];
         this.publish(updated);
+        this.emit("updated", { id, reason: "updated", dialog: updated });
       }
+    } else if (
+      this.mode === "queue" &&
+      isModalDialog(options) &&
+      this.hasModalDialog()
+    ) {
+      this.enqueue({ ...options, id });
     } else {
       if (this.dialogs.length === 0) {
         this.saveFocus();
@@ -232,14 +450,24 @@ export class DialogManager {
         id,
       };
       this.addDialog(dialog);
+      this.emit("opened", { id, reason: "shown", dialog });
       dialog.onOpen?.();
     }
 
     return id;
   }
 
-  /** Close a dialog by ID, or the top-most dialog if no ID provided. */
-  close(id?: DialogId): DialogId | undefined {
+  /**
+   * Close a dialog by ID, or the top-most dialog if no ID provided.
+   *
+   * Returns the closed dialog's ID, or `undefined` if nothing was closed
+   * because no dialog matched, `onBeforeClose` vetoed it, or `onBeforeClose`
+   * returned a Promise (the dialog closes once it resolves to `true`).
+   */
+  close(
+    id?: DialogId,
+    reason: DialogCloseReason = "programmatic",
+  ): DialogId | undefined {
     let targetId: DialogId | undefined;
 
     if (id !== undefined) {
@@ -249,11 +477,93 @@ export class DialogManager {
       targetId = topDialog?.id;
     }
 
-    if (targetId === undefined) {
+    if (targetId === undefined || this.pendingCloses.has(targetId)) {
       return undefined;
     }
 
-    const dialogIndex = this.dialogs.findIndex((d) => d.id === targetId);
+    const queued = this.queue.find((d) => d.id === targetId);
+    if (queued) {
+      // Queued dialogs were never shown, so there is nothing to veto
+      return this.removeQueued(queued, reason);
+    }
+
+    const dialog = this.dialogs.find((d) => d.id === targetId);
+    if (!dialog) {
+      return undefined;
+    }
+
+    this.emit("closing", { id: targetId, reason });
+
+    let allowed: boolean | undefined | Promise<boolean>;
+    try {
+      allowed = dialog.onBeforeClose?.(reason);
+    } catch (error) {
+      console.error(
+        "[@opentui-ui/dialog] onBeforeClose threw an error:",
+        error,
+      );
+      return undefined;
+    }
+
+    if (allowed instanceof Promise) {
+      const pendingId = targetId;
+      this.pendingCloses.add(pendingId);
+      allowed
+        .then(
+          (shouldClose) => {
+            if (shouldClose !== false && !this.destroyed) {
+              this.removeDialog(pendingId, reason);
+            }
+          },
+          (error: unknown) => {
+            console.error(
+              "[@opentui-ui/dialog] onBeforeClose rejected:",
+              error,
+            );
+          },
+        )
+        .finally(() => {
+          this.pendingCloses.delete(pendingId);
+        });
+      return undefined;
+    }
+
+    if (allowed === false) {
+      return undefined;
+    }
+
+    return this.removeDialog(targetId, reason);
+  }
+
+  /**
+   * Close a dialog without consulting `onBeforeClose`.
+   * Used for aborts and timeouts, which the dialog cannot refuse.
+   */
+  private forceClose(id: DialogId, reason: DialogCloseReason): void {
+    const queued = this.queue.find((d) => d.id === id);
+    if (queued) {
+      this.removeQueued(queued, reason);
+    } else if (this.dialogs.some((d) => d.id === id)) {
+      this.emit("closing", { id, reason });
+      this.removeDialog(id, reason);
+    }
+  }
+
+  private removeQueued(queued: Dialog, reason: DialogCloseReason): DialogId {
+    const { id } = queued;
+    this.emit("closing", { id, reason });
+    this.setQueue(this.queue.filter((d) => d !== queued));
+    this.opened.delete(id);
+    this.emit("closed", { id, reason, duration: 0 });
+    queued.onClose?.(reason);
+    return id;
+  }
+
+  private removeDialog(
+    id: DialogId,
+    reason: DialogCloseReason,
+  ): DialogId | undefined {
+    const dialogIndex = this.dialogs.findIndex((d) => d.id === id);
     if (dialogIndex === -1) {
       return undefined;
     }
@@ -266,31 +576,175 @@ export class DialogManager {
       ...this.dialogs.slice(dialogIndex + 1),
     ];
 
-    this.publish({ id: targetId, close: true });
+    this.opened.delete(id);
+    this.publish({ id, close: true });
+    this.emit("closed", { id, reason, duration: this.getOpenDuration(id) });
 
-    dialog?.onClose?.();
+    dialog?.onClose?.(reason);
+    this.openedAt.delete(id);
 
-    if (this.dialogs.length === 0) {
-      this.restoreFocus();
+    // The next queued dialog takes over focus, so keep the saved focus for later
+    if (!this.hasModalDialog() && this.queue.length > 0) {
+      this.showNextQueued();
+      return id;
+    }
+
+    if (this.dialogs.length === 0 || dialog?.returnFocus !== undefined) {
+      this.restoreFocus(dialog?.returnFocus, id, reason);
     }
 
-    return targetId;
+    return id;
   }
 
-  /** Close all open dialogs. */
-  closeAll(): void {
+  /**
+   * Close all open and queued dialogs. Open dialogs that veto the close
+   * stay open.
+   */
+  closeAll(reason: DialogCloseReason = "programmatic"): void {
+    // Drop the queue first so closing open dialogs doesn't promote it
+    for (const d of [...this.queue].reverse()) {
+      this.close(d.id, reason);
+    }
+
     const dialogsToClose = [...this.dialogs].reverse();
     for (const d of dialogsToClose) {
-      this.close(d.id);
+      this.close(d.id, reason);
+    }
+  }
+
+  /**
+   * Move an open dialog to the top of the stack, above every other dialog.
+   * Returns false if no open dialog has this ID.
+   */
+  raise(id: DialogId): boolean {
+    const index = this.dialogs.findIndex((d) => d.id === id);
+    const dialog = this.dialogs[index];
+    if (!dialog) {
+      return false;
     }
+
+    if (index < this.dialogs.length - 1) {
+      this.dialogs = [
+        ...this.dialogs.slice(0, index),
+        ...this.dialogs.slice(index + 1),
+        dialog,
+      ];
+      this.publish(dialog);
+      this.emit("updated", { id, reason: "raised", dialog });
+    }
+
+    return true;
   }
 
   /** Close all dialogs and show a new one. */
   replace(options: DialogShowOptions): DialogId {
-    this.closeAll();
+    this.closeAll("replaced");
     return this.show(options);
   }
 
+  /**
+   * Register a dialog type, so it can be opened by name with `open()` and
+   * restored from `serialize()` output. Returns a function that unregisters it.
+   *
+   * @example
+   * ```ts
+   * manager.register("rename", (props: { path: string }) => ({
+   *   title: `Rename ${props.path}`,
+   *   content: (ctx) => new RenameForm(ctx, props),
+   * }));
+   *
+   * manager.open("rename", { path: "notes.md" });
+   * ```
+   */
+  register<P>(type: string, component: DialogComponent<P>): () => void {
+    if (this.components.has(type)) {
+      throw new Error(
+        `[@opentui-ui/dialog] A dialog type named "${type}" is already registered.`,
+      );
+    }
+
+    const registered = component as DialogComponent<unknown>;
+    this.components.set(type, registered);
+
+    return () => {
+      if (this.components.get(type) === registered) {
+        this.components.delete(type);
+      }
+    };
+  }
+
+  /** Open a registered dialog type with props and return its ID. */
+  open<P>(type: string, props: P, options: DialogOpenOptions = {}): DialogId {
+    const component = this.components.get(type);
+    if (!component) {
+      throw new Error(
+        `[@opentui-ui/dialog] No dialog type named "${type}" is registered.\n\n` +
+          `Register it before opening it:\n\n` +
+          `  manager.register("${type}", (props) => ({\n` +
+          `    content: (ctx) => new MyDialog(ctx, props),\n` +
+          `  }));`,
+      );
+    }
+
+    const showOptions = component(props);
+    const id = this.show(
+      options.id !== undefined
+        ? { ...showOptions, id: options.id }
+        : showOptions,
+    );
+    this.opened.set(id, { id, type, props });
+
+    return id;
+  }
+
+  /**
+   * Save the dialogs opened with `open()` as JSON-serializable data, open
+   * ones oldest first, then queued ones. Dialogs shown any other way are
+   * skipped, since their content can't be serialized.
+   */
+  serialize(): SerializedDialogState {
+    const dialogs = [...this.dialogs, ...this.queue].flatMap((d) => {
+      const opened = this.opened.get(d.id);
+      return opened ? [{ ...opened }] : [];
+    });
+
+    return { version: 1, dialogs };
+  }
+
+  /**
+   * Reopen dialogs saved by `serialize()` with their IDs and props.
+   * Types that are no longer registered are skipped. Returns the IDs of the
+   * restored dialogs.
+   *
+   * @example
+   * ```ts
+   * process.on("exit", () => writeFileSync(path, JSON.stringify(manager.serialize())));
+   *
+   * // After a restart, once the dialog types are registered again
+   * manager.restore(JSON.parse(readFileSync(path, "utf8")));
+   * ```
+   */
+  restore(state: SerializedDialogState): DialogId[] {
+    if (state.version !== 1) {
+      throw new Error(
+        `[@opentui-ui/dialog] Unsupported dialog state version: ${String(state.version)}.`,
+      );
+    }
+
+    const ids: DialogId[] = [];
+    for (const saved of state.dialogs) {
+      if (!this.components.has(saved.type)) continue;
+
+      // Keep generated IDs from colliding with restored ones
+      if (typeof saved.id === "number") {
+        this.idCounter = Math.max(this.idCounter, saved.id + 1);
+      }
+      ids.push(this.open(saved.type, saved.props, { id: saved.id }));
+    }
+
+    return ids;
+  }
+
   /**
    * Get all active dialogs (oldest first).
    *
@@ -301,6 +755,15 @@ export class DialogManager {
     return this.dialogs;
   }
 
+  /**
+   * Get dialogs waiting to be shown in `queue` mode (next first).
+   *
+   * Returns a stable reference that only changes when the queue changes.
+   */
+  getQueue(): readonly Dialog[] {
+    return this.queue;
+  }
+
   /** Get the top-most active dialog. */
   getTopDialog(): Dialog | undefined {
     if (this.dialogs.length === 0) {
@@ -314,6 +777,10 @@ export class DialogManager {
     return this.dialogs.length > 0;
   }
 
+  private hasModalDialog(): boolean {
+    return this.dialogs.some(isModalDialog);
+  }
+
   /**
    * Builds DialogShowOptions from either a factory function or a CoreOptions object.
    */
@@ -323,9 +790,9 @@ export class DialogManager {
       content: (renderCtx: RenderContext, ctx: TCtx) => Renderable;
     },
   >(
-    input: TOptions | ((ctx: TCtx) => DialogShowOptions),
+    input: TOptions | ((ctx: TCtx) => AsyncShowOptions<unknown>),
     ctx: TCtx,
-  ): DialogShowOptions {
+  ): AsyncShowOptions<unknown> {
     if (typeof input === "function") {
       return input(ctx);
     }
@@ -342,44 +809,122 @@ export class DialogManager {
    * - Safe double-resolve protection
    * - Dialog show/close lifecycle
    * - Fallback value handling for ESC/backdrop dismissal
+   * - Abort signal and timeout handling
    */
   private showAsyncDialog<T>(
     createContextAndOptions: (
       safeResolve: (value: T) => void,
       dialogId: DialogId,
     ) => {
-      showOptions: DialogShowOptions;
+      showOptions: AsyncShowOptions<unknown>;
       fallback?: T;
     },
     defaultDismissValue: T,
   ): Promise<T> {
-    return new Promise<T>((resolve) => {
-      let resolved = false;
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let result: { value: T } | undefined;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      let cleanupAbort: (() => void) | undefined;
 
       // Pre-generate the dialog ID so it can be passed to the context factory
       const dialogId = this.idCounter++;
 
-      // Guard to ensure the promise resolves only once, since onClose always fires (even after explicit close)
+      // The promise settles in onClose, so a vetoed close keeps it pending
       const safeResolve = (value: T) => {
-        if (resolved) return;
-        resolved = true;
-        resolve(value);
-        this.close(dialogId);
+        if (settled) return;
+        result = { value };
+        this.close(dialogId, "resolved");
       };
 
       const { showOptions, fallback } = createContextAndOptions(
         safeResolve,
         dialogId,
       );
+      const {
+        signal,
+        timeout,
+        rejectOnAbort,
+        fallback: _,
+        ...dialogOptions
+      } = showOptions;
+
+      const settle = (settleWith: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        cleanupAbort?.();
+        settleWith();
+      };
+
+      const dismiss = (reason: DialogDismissReason) => {
+        this.emit("dismissed", {
+          id: dialogId,
+          reason,
+          duration: this.getOpenDuration(dialogId),
+        });
+      };
+
+      const settleAborted = (kind: "abort" | "timeout", cause?: unknown) => {
+        if (rejectOnAbort) {
+          reject(new DialogAbortedError(dialogId, kind, cause));
+        } else {
+          resolve(fallback ?? defaultDismissValue);
+        }
+      };
+
+      // Removes the dialog without asking onBeforeClose, then settles
+      const abort = (kind: "abort" | "timeout", cause?: unknown) => {
+        if (settled) return;
+        this.forceClose(dialogId, kind);
+        settle(() => {
+          dismiss(kind);
+          settleAborted(kind, cause);
+        });
+      };
+
+      // Never shown, so there is no lifecycle to report
+      if (signal?.aborted) {
+        settle(() => settleAborted("abort", signal.reason));
+        return;
+      }
 
       this.show({
-        ...showOptions,
+        ...dialogOptions,
         id: dialogId,
-        onClose: () => {
-          showOptions.onClose?.();
-          safeResolve(fallback ?? defaultDismissValue);
+        onOpen: () => {
+          showOptions.onOpen?.();
+          // Time spent waiting in the queue doesn't count
+          if (timeout !== undefined && !settled) {
+            timeoutId = setTimeout(() => abort("timeout"), timeout);
+          }
+        },
+        onClose: (reason) => {
+          showOptions.onClose?.(reason);
+          // abort() settles with its cause once the dialog is gone
+          if (reason === "abort" || reason === "timeout") return;
+          settle(() => {
+            if (reason === "resolved" && result) {
+              this.emit("resolved", {
+                id: dialogId,
+                reason,
+                value: result.value,
+                duration: this.getOpenDuration(dialogId),
+              });
+              resolve(result.value);
+            } else {
+              dismiss(reason);
+              resolve(fallback ?? defaultDismissValue);
+            }
+          });
         },
       });
+
+      if (signal) {
+        const onAbort = () => abort("abort", signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        cleanupAbort = () => signal.removeEventListener("abort", onAbort);
+      }
     });
   }
 
@@ -444,9 +989,18 @@ export class DialogManager {
    *
    * Accepts either ConfirmOptions (for imperative usage) or a factory function
    * that receives the confirm context and returns AsyncShowOptions (for framework adapters).
+   * Without `content`, renders a built-in message with Cancel/OK buttons.
    *
    * @example
    * ```ts
+   * // Built-in UI
+   * const confirmed = await manager.confirm({
+   *   title: "Delete file?",
+   *   message: "This action cannot be undone.",
+   *   confirmLabel: "Delete",
+   *   destructive: true,
+   * });
+   *
    * // Core/imperative usage
    * const confirmed = await manager.confirm({
    *   content: (renderCtx, { resolve }) => {
@@ -489,14 +1043,159 @@ export class DialogManager {
         return { showOptions: result, fallback: result.fallback };
       }
 
-      const { fallback, ...rest } = input;
+      const {
+        fallback,
+        content,
+        message,
+        confirmLabel,
+        cancelLabel,
+        destructive,
+        ...rest
+      } = input;
+
+      if (content) {
+        return {
+          showOptions: this.buildShowOptions({ ...rest, content }, ctx),
+          fallback,
+        };
+      }
+
       return {
-        showOptions: this.buildShowOptions(rest, ctx),
+        showOptions: {
+          // Destructive confirms focus Cancel, the first button
+          initialFocus: destructive ? undefined : getConfirmButtonId(dialogId),
+          ...rest,
+          content: (renderCtx, style) =>
+            createConfirmContent(renderCtx, style, ctx, {
+              message,
+              confirmLabel,
+              cancelLabel,
+              destructive,
+            }),
+        },
         fallback,
       };
     }, false);
   }
 
+  /**
+   * Show a text input dialog and wait for the user to submit or cancel.
+   *
+   * Without `content`, renders a built-in input with Cancel/OK buttons,
+   * themed by the dialog style. Enter submits; `validate` can keep the
+   * dialog open with an error message.
+   *
+   * @returns The submitted text, or `undefined` if cancelled or dismissed.
+   *
+   * @example
+   * ```ts
+   * const name = await manager.input({
+   *   title: "Rename file",
+   *   placeholder: "new-name.ts",
+   *   validate: (value) => (value.trim() ? undefined : "Name is required"),
+   * });
+   * ```
+   */
+  input(options: InputOptions): Promise<string | undefined> {
+    const {
+      content,
+      fallback,
+      message,
+      confirmLabel,
+      cancelLabel,
+      placeholder,
+      defaultValue,
+      validate,
+      mask,
+      ...rest
+    } = options;
+
+    if (content) {
+      return this.prompt<string>({ ...rest, content, fallback });
+    }
+
+    return this.showAsyncDialog<string | undefined>((safeResolve, dialogId) => {
+      const ctx: PromptContext<string> = {
+        resolve: safeResolve,
+        dismiss: () => safeResolve(undefined),
+        dialogId,
+      };
+
+      return {
+        showOptions: {
+          ...rest,
+          content: (renderCtx, style) =>
+            createInputContent(renderCtx, style, ctx, {
+              message,
+              confirmLabel,
+              cancelLabel,
+              placeholder,
+              defaultValue,
+              validate,
+              mask,
+            }),
+        },
+        fallback,
+      };
+    }, undefined);
+  }
+
+  /**
+   * Show a list of options and wait for the user to pick one.
+   *
+   * Without `content`, renders a built-in list navigated with the arrow
+   * keys and picked with Enter, themed by the dialog style.
+   *
+   * @template K The type of the option values.
+   * @returns The selected value, or `undefined` if cancelled or dismissed.
+   *
+   * @example
+   * ```ts
+   * const branch = await manager.select({
+   *   title: "Checkout branch",
+   *   options: [
+   *     { label: "main", value: "main" },
+   *     { label: "develop", value: "develop", description: "Next release" },
+   *   ],
+   * });
+   * ```
+   */
+  select<K>(options: SelectOptions<K>): Promise<K | undefined> {
+    const {
+      content,
+      fallback,
+      message,
+      options: selectOptions,
+      defaultValue,
+      ...rest
+    } = options;
+
+    if (content) {
+      return this.choice<K>({ ...rest, content, fallback });
+    }
+
+    return this.showAsyncDialog<K | undefined>((safeResolve, dialogId) => {
+      const ctx: ChoiceContext<K> = {
+        resolve: safeResolve,
+        dismiss: () => safeResolve(undefined),
+        dialogId,
+      };
+
+      return {
+        showOptions: {
+          ...rest,
+          content: (renderCtx, style) =>
+            createSelectContent(renderCtx, style, ctx, {
+              message,
+              options: selectOptions,
+              defaultValue,
+            }),
+        },
+        fallback,
+      };
+    }, undefined);
+  }
+
   /**
    * Show an alert dialog and wait for the user to dismiss it.
    *
@@ -522,9 +1221,11 @@ export class DialogManager {
    * ```
    */
   alert(options: AlertOptions): Promise<void>;
-  alert(showFactory: (ctx: AlertContext) => DialogShowOptions): Promise<void>;
   alert(
-    input: AlertOptions | ((ctx: AlertContext) => DialogShowOptions),
+    showFactory: (ctx: AlertContext) => AsyncShowOptions<void>,
+  ): Promise<void>;
+  alert(
+    input: AlertOptions | ((ctx: AlertContext) => AsyncShowOptions<void>),
   ): Promise<void> {
     return this.showAsyncDialog<void>((safeResolve, dialogId) => {
       const ctx: AlertContext = {
@@ -598,6 +1299,178 @@ export class DialogManager {
     }, undefined);
   }
 
+  /**
+   * Show a multi-step wizard in a single dialog and wait for it to finish.
+   *
+   * Each step swaps its content into the open dialog. Steps share the typed
+   * `data` of the wizard context, and `validate` runs on Next and Finish.
+   * Back keeps the collected data.
+   *
+   * Accepts a second argument for framework adapters, which turns a step's
+   * content into dialog options.
+   *
+   * @template T The combined data of all steps.
+   * @returns The collected data, or `undefined` if cancelled or dismissed.
+   *
+   * @example
+   * ```ts
+   * const project = await manager.wizard<{ name: string; license: string }>({
+   *   title: "New project",
+   *   initialData: { license: "MIT" },
+   *   steps: [
+   *     {
+   *       description: "Name your project",
+   *       content: (renderCtx, { set, next }) => {
+   *         const input = new InputRenderable(renderCtx, {});
+   *         input.on(InputRenderableEvents.INPUT, (name) => set({ name }));
+   *         input.on(InputRenderableEvents.ENTER, next);
+   *         return input;
+   *       },
+   *       validate: (data) => (data.name ? undefined : "Name is required"),
+   *     },
+   *     {
+   *       description: "Pick a license",
+   *       content: (renderCtx, { data }) => new LicensePicker(renderCtx, data),
+   *     },
+   *   ],
+   * });
+   * ```
+   */
+  wizard<T>(options: WizardOptions<T>): Promise<T | undefined>;
+  wizard<T, TContent>(
+    options: BaseWizardOptions<T, TContent>,
+    renderStep: (content: TContent, ctx: WizardContext<T>) => DialogShowOptions,
+  ): Promise<T | undefined>;
+  wizard<T, TContent>(
+    options: BaseWizardOptions<T, TContent>,
+    renderStep?: (
+      content: TContent,
+      ctx: WizardContext<T>,
+    ) => DialogShowOptions,
+  ): Promise<T | undefined> {
+    const {
+      steps,
+      initialData,
+      backLabel,
+      nextLabel,
+      finishLabel,
+      cancelLabel,
+      title,
+      description,
+      ...rest
+    } = options;
+
+    if (steps.length === 0) {
+      throw new Error(
+        "[@opentui-ui/dialog] Cannot show wizard: `steps` must not be empty.",
+      );
+    }
+
+    // Without an adapter, TContent is the core WizardContent of the overload
+    const render =
+      renderStep ??
+      ((content: TContent, ctx: WizardContext<T>): DialogShowOptions => ({
+        content: (renderCtx) => (content as WizardContent<T>)(renderCtx, ctx),
+      }));
+
+    return this.showAsyncDialog<T | undefined>((safeResolve, dialogId) => {
+      let data: Partial<T> = { ...initialData };
+      let stepIndex = 0;
+      let stepOptions: DialogShowOptions;
+      let validating = false;
+
+      const ctx: WizardContext<T> = {
+        get data() {
+          return data;
+        },
+        set: (values) => {
+          data = { ...data, ...values };
+        },
+        next: () => {
+          void next();
+        },
+        back: () => {
+          if (stepIndex === 0 || validating) return;
+          stepIndex--;
+          showStep();
+        },
+        dismiss: () => safeResolve(undefined),
+        get stepIndex() {
+          return stepIndex;
+        },
+        stepCount: steps.length,
+        dialogId,
+      };
+
+      const buildFooter =
+        (error?: string): DialogShowOptions["footer"] =>
+        (renderCtx, style) =>
+          createWizardFooter(renderCtx, style, ctx, {
+            backLabel,
+            nextLabel,
+            finishLabel,
+            cancelLabel,
+            error,
+          });
+
+      // Content is built once per visit, so showing an error keeps its state
+      const enterStep = (): DialogShowOptions => {
+        const step = steps[stepIndex] as BaseWizardStep<T, TContent>;
+        stepOptions = {
+          ...render(step.content, ctx),
+          title: step.title ?? title,
+          description: step.description ?? description,
+        };
+        return { ...stepOptions, footer: buildFooter() };
+      };
+
+      const isOpen = () => this.dialogs.some((d) => d.id === dialogId);
+
+      const showStep = () => {
+        this.show({ ...enterStep(), id: dialogId });
+      };
+
+      const next = async () => {
+        const step = steps[stepIndex];
+        if (!step || validating) return;
+
+        let error: string | null | undefined;
+        validating = true;
+        try {
+          error = await step.validate?.(data);
+        } catch (cause) {
+          console.error(
+            "[@opentui-ui/dialog] Wizard step validation threw an error:",
+            cause,
+          );
+          return;
+        } finally {
+          validating = false;
+        }
+
+        // Closed while an async validation was pending
+        if (!isOpen()) return;
+
+        if (error) {
+          this.show({
+            ...stepOptions,
+            footer: buildFooter(error),
+            id: dialogId,
+          });
+        } else if (stepIndex === steps.length - 1) {
+          safeResolve(data as T);
+        } else {
+          stepIndex++;
+          showStep();
+        }
+      };
+
+      return {
+        showOptions: { ...rest, ...enterStep() },
+      };
+    }, undefined);
+  }
+
   /** Destroy the manager and clean up resources. */
   destroy(): void {
     if (this.destroyed) return;
@@ -605,8 +1478,15 @@ export class DialogManager {
 
     this.cancelPendingFocusRestore();
     this.savedFocus = null;
+    this.pendingCloses.clear();
     this.subscribers.clear();
+    this.queueSubscribers.clear();
+    this.components.clear();
+    this.opened.clear();
+    this.listeners.clear();
+    this.openedAt.clear();
     this.dialogs = [];
+    this.queue = [];
   }
 
   get isDestroyed(): boolean {
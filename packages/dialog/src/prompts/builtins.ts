@@ -0,0 +1,377 @@
+import {
+  BoxRenderable,
+  InputRenderable,
+  InputRenderableEvents,
+  type OptimizedBuffer,
+  parseColor,
+  type Renderable,
+  type RenderContext,
+  SelectRenderable,
+  SelectRenderableEvents,
+  TextRenderable,
+} from "@opentui/core";
+import {
+  DEFAULT_BACK_LABEL,
+  DEFAULT_CANCEL_LABEL,
+  DEFAULT_CONFIRM_LABEL,
+  DEFAULT_FINISH_LABEL,
+  DEFAULT_MASK_CHAR,
+  DEFAULT_NEXT_LABEL,
+  MAX_VISIBLE_SELECT_OPTIONS,
+} from "../constants";
+import { DialogButtonRenderable } from "../renderables/button";
+import type {
+  BaseConfirmOptions,
+  BaseInputOptions,
+  BaseSelectOptions,
+  BaseWizardOptions,
+  BuiltinPromptText,
+  DialogId,
+  DialogStyle,
+} from "../types";
+import type {
+  ChoiceContext,
+  ConfirmContext,
+  PromptContext,
+  WizardContext,
+} from "./types";
+
+/** Options of the built-in input UI, without content and dialog options. */
+export type InputContentOptions = Pick<
+  BaseInputOptions<never>,
+  | "message"
+  | "confirmLabel"
+  | "cancelLabel"
+  | "placeholder"
+  | "defaultValue"
+  | "validate"
+  | "mask"
+>;
+
+/** Options of the built-in confirm UI, without content and dialog options. */
+export type ConfirmContentOptions = Pick<
+  BaseConfirmOptions<never>,
+  "message" | "confirmLabel" | "cancelLabel" | "destructive"
+>;
+
+/** Options of the built-in select UI, without content and dialog options. */
+export type SelectContentOptions<K> = Pick<
+  BaseSelectOptions<never, K>,
+  "message" | "options" | "defaultValue"
+>;
+
+/** Options of the wizard footer, without steps and dialog options. */
+export type WizardFooterOptions = Pick<
+  BaseWizardOptions<never, never>,
+  "backLabel" | "nextLabel" | "finishLabel" | "cancelLabel"
+> & {
+  /** Validation error of the current step. */
+  error?: string;
+};
+
+/** ID of the confirm button rendered by the built-in UIs. */
+export function getConfirmButtonId(dialogId: DialogId): string {
+  return `dialog-${dialogId}-confirm`;
+}
+
+function createLayout(
+  renderCtx: RenderContext,
+  style: DialogStyle,
+  text: Pick<BuiltinPromptText, "message">,
+): BoxRenderable {
+  const root = new BoxRenderable(renderCtx, {
+    flexDirection: "column",
+    gap: 1,
+  });
+
+  if (text.message) {
+    root.add(
+      new TextRenderable(renderCtx, {
+        content: text.message,
+        fg: style.mutedColor,
+        wrapMode: "word",
+      }),
+    );
+  }
+
+  return root;
+}
+
+function createButtonRow(
+  renderCtx: RenderContext,
+  style: DialogStyle,
+  dialogId: DialogId,
+  options: {
+    confirmLabel?: string;
+    cancelLabel?: string;
+    destructive?: boolean;
+    onConfirm: () => void;
+    onCancel: () => void;
+  },
+): BoxRenderable {
+  const row = new BoxRenderable(renderCtx, {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 2,
+  });
+
+  row.add(
+    new DialogButtonRenderable(renderCtx, {
+      id: `dialog-${dialogId}-cancel`,
+      label: options.cancelLabel ?? DEFAULT_CANCEL_LABEL,
+      color: style.mutedColor,
+      focusedTextColor: style.backgroundColor,
+      onPress: options.onCancel,
+    }),
+  );
+  row.add(
+    new DialogButtonRenderable(renderCtx, {
+      id: getConfirmButtonId(dialogId),
+      label: options.confirmLabel ?? DEFAULT_CONFIRM_LABEL,
+      color: options.destructive ? style.dangerColor : style.accentColor,
+      focusedTextColor: style.backgroundColor,
+      onPress: options.onConfirm,
+    }),
+  );
+
+  return row;
+}
+
+/** Draw mask characters over the visible value of a (buffered) input. */
+function maskInput(
+  input: InputRenderable,
+  maskChar: string,
+  style: DialogStyle,
+): void {
+  const fg = parseColor(style.textColor ?? "#ffffff");
+  const bg = parseColor(style.inputBackgroundColor ?? "transparent");
+
+  input.renderAfter = function (buffer: OptimizedBuffer) {
+    const { value, cursorPosition } = input;
+    if (!value) return;
+
+    // Mirrors the horizontal scrolling of InputRenderable
+    const maxVisibleChars = this.width - 1;
+    const start =
+      cursorPosition >= maxVisibleChars
+        ? cursorPosition - maxVisibleChars + 1
+        : 0;
+    const visibleLength = Math.min(value.length - start, maxVisibleChars);
+
+    buffer.drawText(maskChar.repeat(visibleLength), 0, 0, fg, bg);
+  };
+}
+
+/** Built-in UI for `manager.input()`: a text input with Cancel/OK buttons. */
+export function createInputContent(
+  renderCtx: RenderContext,
+  style: DialogStyle,
+  promptCtx: PromptContext<string>,
+  options: InputContentOptions,
+): Renderable {
+  const { dialogId } = promptCtx;
+  const root = createLayout(renderCtx, style, options);
+
+  const input = new InputRenderable(renderCtx, {
+    id: `dialog-${dialogId}-input`,
+    value: options.defaultValue,
+    placeholder: options.placeholder,
+    backgroundColor: style.inputBackgroundColor,
+    focusedBackgroundColor: style.inputBackgroundColor,
+    textColor: style.textColor,
+    focusedTextColor: style.textColor,
+    placeholderColor: style.mutedColor,
+    cursorColor: style.accentColor,
+  });
+  if (options.mask) {
+    maskInput(
+      input,
+      typeof options.mask === "string" ? options.mask : DEFAULT_MASK_CHAR,
+      style,
+    );
+  }
+
+  const error = new TextRenderable(renderCtx, {
+    content: "",
+    fg: style.dangerColor,
+    wrapMode: "word",
+    visible: false,
+  });
+
+  const submit = () => {
+    const message = options.validate?.(input.value);
+    if (message) {
+      error.content = message;
+      error.visible = true;
+      return;
+    }
+    promptCtx.resolve(input.value);
+  };
+
+  input.on(InputRenderableEvents.INPUT, () => {
+    error.visible = false;
+  });
+  input.on(InputRenderableEvents.ENTER, submit);
+
+  root.add(input);
+  root.add(error);
+  root.add(
+    createButtonRow(renderCtx, style, dialogId, {
+      confirmLabel: options.confirmLabel,
+      cancelLabel: options.cancelLabel,
+      onConfirm: submit,
+      onCancel: promptCtx.dismiss,
+    }),
+  );
+
+  return root;
+}
+
+/** Built-in UI for `manager.confirm()`: a message with Cancel/OK buttons. */
+export function createConfirmContent(
+  renderCtx: RenderContext,
+  style: DialogStyle,
+  confirmCtx: ConfirmContext,
+  options: ConfirmContentOptions,
+): Renderable {
+  const root = createLayout(renderCtx, style, options);
+
+  root.add(
+    createButtonRow(renderCtx, style, confirmCtx.dialogId, {
+      confirmLabel: options.confirmLabel,
+      cancelLabel: options.cancelLabel,
+      destructive: options.destructive,
+      onConfirm: () => confirmCtx.resolve(true),
+      onCancel: () => confirmCtx.resolve(false),
+    }),
+  );
+
+  return root;
+}
+
+/** Built-in UI for `manager.select()`: a keyboard-navigable option list. */
+export function createSelectContent<K>(
+  renderCtx: RenderContext,
+  style: DialogStyle,
+  choiceCtx: ChoiceContext<K>,
+  options: SelectContentOptions<K>,
+): Renderable {
+  const root = createLayout(renderCtx, style, options);
+
+  const showDescription = options.options.some((o) => o.description);
+  const linesPerOption = showDescription ? 2 : 1;
+  const selectedIndex = options.options.findIndex(
+    (o) => o.value === options.defaultValue,
+  );
+
+  const select = new SelectRenderable(renderCtx, {
+    id: `dialog-${choiceCtx.dialogId}-select`,
+    height:
+      Math.min(options.options.length, MAX_VISIBLE_SELECT_OPTIONS) *
+      linesPerOption,
+    options: options.options.map((o) => ({
+      name: o.label,
+      description: o.description ?? "",
+      value: o.value,
+    })),
+    selectedIndex: Math.max(0, selectedIndex),
+    showDescription,
+    wrapSelection: true,
+    backgroundColor: "transparent",
+    focusedBackgroundColor: "transparent",
+    textColor: style.textColor,
+    focusedTextColor: style.textColor,
+    selectedBackgroundColor: style.accentColor,
+    selectedTextColor: style.backgroundColor,
+    descriptionColor: style.mutedColor,
+    selectedDescriptionColor: style.backgroundColor,
+  });
+
+  select.on(SelectRenderableEvents.ITEM_SELECTED, (index: number) => {
+    const option = options.options[index];
+    if (option) {
+      choiceCtx.resolve(option.value);
+    }
+  });
+
+  root.add(select);
+
+  return root;
+}
+
+/**
+ * Footer of `manager.wizard()`: the step counter, a validation error and
+ * Cancel/Back/Next buttons. Next reads "Finish" on the last step.
+ */
+export function createWizardFooter<T>(
+  renderCtx: RenderContext,
+  style: DialogStyle,
+  wizardCtx: WizardContext<T>,
+  options: WizardFooterOptions,
+): Renderable {
+  const { dialogId, stepIndex, stepCount } = wizardCtx;
+  const isLast = stepIndex === stepCount - 1;
+
+  const root = new BoxRenderable(renderCtx, {
+    flexDirection: "column",
+    gap: 1,
+  });
+
+  if (options.error) {
+    root.add(
+      new TextRenderable(renderCtx, {
+        content: options.error,
+        fg: style.dangerColor,
+        wrapMode: "word",
+      }),
+    );
+  }
+
+  const row = new BoxRenderable(renderCtx, {
+    flexDirection: "row",
+    gap: 2,
+  });
+
+  row.add(
+    new TextRenderable(renderCtx, {
+      content: `Step ${stepIndex + 1} of ${stepCount}`,
+      fg: style.mutedColor,
+      marginRight: "auto",
+    }),
+  );
+  row.add(
+    new DialogButtonRenderable(renderCtx, {
+      id: `dialog-${dialogId}-cancel`,
+      label: options.cancelLabel ?? DEFAULT_CANCEL_LABEL,
+      color: style.mutedColor,
+      focusedTextColor: style.backgroundColor,
+      onPress: wizardCtx.dismiss,
+    }),
+  );
+  if (stepIndex > 0) {
+    row.add(
+      new DialogButtonRenderable(renderCtx, {
+        id: `dialog-${dialogId}-back`,
+        label: options.backLabel ?? DEFAULT_BACK_LABEL,
+        color: style.textColor,
+        focusedTextColor: style.backgroundColor,
+        onPress: wizardCtx.back,
+      }),
+    );
+  }
+  row.add(
+    new DialogButtonRenderable(renderCtx, {
+      id: getConfirmButtonId(dialogId),
+      label: isLast
+        ? (options.finishLabel ?? DEFAULT_FINISH_LABEL)
+        : (options.nextLabel ?? DEFAULT_NEXT_LABEL),
+      color: style.accentColor,
+      focusedTextColor: style.backgroundColor,
+      onPress: wizardCtx.next,
+    }),
+  );
+
+  root.add(row);
+
+  return root;
+}
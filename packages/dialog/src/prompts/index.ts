@@ -4,4 +4,5 @@ export type {
   ConfirmContext,
   DialogState,
   PromptContext,
+  WizardContext,
 } from "./types";
@@ -17,6 +17,8 @@ export interface DialogState {
   topDialog: Dialog | undefined;
   /** Number of currently open dialogs. */
   count: number;
+  /** Dialogs waiting to be shown in `queue` mode (next first). */
+  queue: readonly Dialog[];
 }
 
 // =============================================================================
@@ -82,3 +84,27 @@ export interface ChoiceContext<K> {
   /** The unique ID of this dialog. Use with `useDialogKeyboard` for scoped keyboard handling. */
   dialogId: DialogId;
 }
+
+/**
+ * Context for a wizard step.
+ * Steps read and write the shared `data`, and move with `next()`/`back()`.
+ * @template T The combined data of all steps.
+ */
+export interface WizardContext<T> {
+  /** Data collected so far, starting from `initialData`. */
+  readonly data: Partial<T>;
+  /** Merge values into the collected data. */
+  set: (values: Partial<T>) => void;
+  /** Validate the current step, then show the next one or finish on the last. */
+  next: () => void;
+  /** Show the previous step, keeping the collected data. */
+  back: () => void;
+  /** Cancels the wizard. Resolves Promise with `undefined`. */
+  dismiss: () => void;
+  /** Zero-based index of the current step. */
+  readonly stepIndex: number;
+  /** Total number of steps. */
+  readonly stepCount: number;
+  /** The unique ID of this dialog. Use with `useDialogKeyboard` for scoped keyboard handling. */
+  dialogId: DialogId;
+}
@@ -6,13 +6,16 @@ import {
   type RenderContext,
 } from "@opentui/core";
 import {
+  type BoxProps,
   createPortal,
   useKeyboard,
   useRenderer,
   useTerminalDimensions,
 } from "@opentui/react";
 import {
+  type ComponentType,
   createContext,
+  createElement,
   type ReactNode,
   useCallback,
   useContext,
@@ -22,7 +25,7 @@ import {
   useState,
   useSyncExternalStore,
 } from "react";
-import { JSX_CONTENT_KEY } from "./constants";
+import { JSX_CONTENT_KEY, JSX_FOOTER_KEY } from "./constants";
 import { DialogManager } from "./manager";
 import type {
   AlertContext,
@@ -30,28 +33,53 @@ import type {
   ConfirmContext,
   DialogState,
   PromptContext,
+  WizardContext,
 } from "./prompts";
-import { DialogContainerRenderable } from "./renderables";
+import {
+  DialogContainerEvents,
+  DialogContainerRenderable,
+} from "./renderables";
 import type {
   BaseAlertOptions,
   BaseChoiceOptions,
   BaseConfirmOptions,
   BaseDialogActions,
+  BaseInputOptions,
   BasePromptOptions,
+  BaseSelectOptions,
+  BaseWizardOptions,
+  BaseWizardStep,
+  DialogCloseReason,
   DialogContainerOptions,
+  DialogEventListener,
+  DialogEventName,
   DialogId,
+  DialogKeyHandlers,
+  DialogManagerOptions,
+  DialogOpenOptions,
   DialogShowOptions,
   InternalDialog,
   InternalDialogShowOptions,
+  SerializedDialogState,
 } from "./types";
+import {
+  activateDialogManager,
+  createDialogScopeRegistry,
+  createMissingScopeError,
+  type DialogScopeRegistry,
+  dispatchKeyBindings,
+  getActiveDialogManager,
+} from "./utils";
 
 interface DialogWithJsx extends InternalDialog {
   [JSX_CONTENT_KEY]?: ReactNode;
+  [JSX_FOOTER_KEY]?: ReactNode;
 }
 
 /** Internal type for show options that include JSX bridging keys */
 interface DialogShowOptionsWithJsx extends InternalDialogShowOptions {
   [JSX_CONTENT_KEY]?: ReactNode;
+  [JSX_FOOTER_KEY]?: ReactNode;
 }
 
 /**
@@ -61,11 +89,23 @@ interface DialogShowOptionsWithJsx extends InternalDialogShowOptions {
  */
 export type ContentFactory = () => ReactNode;
 
-export interface ShowOptions extends Omit<DialogShowOptions, "content"> {
+export interface ShowOptions
+  extends Omit<DialogShowOptions, "content" | "footer"> {
   /** Must be a function returning JSX: `() => <MyDialog />` */
   content: ContentFactory;
+  /** Pinned below the body. Must be a function returning JSX. */
+  footer?: ContentFactory;
 }
 
+/**
+ * Show options of a registered dialog component, or a function that builds
+ * them from the props it is opened with.
+ * @template P The component's props.
+ */
+export type DialogComponentOptions<P> =
+  | Omit<ShowOptions, "content">
+  | ((props: P) => Omit<ShowOptions, "content">);
+
 // ============================================================================
 // React Prompt Types
 // ============================================================================
@@ -83,29 +123,74 @@ type AlertContent = (ctx: AlertContext) => ReactNode;
 /** Content factory for choice dialogs. */
 type ChoiceContent<K> = (ctx: ChoiceContext<K>) => ReactNode;
 
+/** Content factory for wizard steps. */
+type WizardContent<T> = (ctx: WizardContext<T>) => ReactNode;
+
+/** JSX `footer` of the async dialog options, like `ShowOptions.footer`. */
+interface AsyncFooterOptions {
+  /** Pinned below the body. Must be a function returning JSX. */
+  footer?: ContentFactory;
+}
+
 /**
  * Options for a generic prompt dialog.
  * @template T The type of value the prompt resolves to.
  */
 export interface PromptOptions<T>
-  extends BasePromptOptions<T, PromptContent<T>> {}
+  extends Omit<BasePromptOptions<T, PromptContent<T>>, "footer">,
+    AsyncFooterOptions {}
 
 /**
  * Options for a confirm dialog.
  */
-export interface ConfirmOptions extends BaseConfirmOptions<ConfirmContent> {}
+export interface ConfirmOptions
+  extends Omit<BaseConfirmOptions<ConfirmContent>, "footer">,
+    AsyncFooterOptions {}
+
+/**
+ * Options for an input dialog.
+ * Omit `content` to use the built-in text input.
+ */
+export interface InputOptions
+  extends Omit<BaseInputOptions<PromptContent<string>>, "footer">,
+    AsyncFooterOptions {}
+
+/**
+ * Options for a select dialog.
+ * Omit `content` to use the built-in option list.
+ * @template K The type of the option values.
+ */
+export interface SelectOptions<K>
+  extends Omit<BaseSelectOptions<ChoiceContent<K>, K>, "footer">,
+    AsyncFooterOptions {}
 
 /**
  * Options for an alert dialog.
  */
-export interface AlertOptions extends BaseAlertOptions<AlertContent> {}
+export interface AlertOptions
+  extends Omit<BaseAlertOptions<AlertContent>, "footer">,
+    AsyncFooterOptions {}
 
 /**
  * Options for a choice dialog.
  * @template K The type of keys for the available choices.
  */
 export interface ChoiceOptions<K>
-  extends BaseChoiceOptions<ChoiceContent<K>, K> {}
+  extends Omit<BaseChoiceOptions<ChoiceContent<K>, K>, "footer">,
+    AsyncFooterOptions {}
+
+/**
+ * A wizard step.
+ * @template T The combined data of all steps.
+ */
+export interface WizardStep<T> extends BaseWizardStep<T, WizardContent<T>> {}
+
+/**
+ * Options for a wizard dialog.
+ * @template T The combined data of all steps.
+ */
+export interface WizardOptions<T>
+  extends BaseWizardOptions<T, WizardContent<T>> {}
 
 /**
  * Dialog actions for showing, closing, and managing dialogs.
@@ -120,10 +205,29 @@ export interface DialogActions extends BaseDialogActions<ShowOptions> {
   alert: (options: AlertOptions) => Promise<void>;
   /** Show a choice dialog and wait for the user to select an option. */
   choice: <K>(options: ChoiceOptions<K>) => Promise<K | undefined>;
+  /** Show a text input dialog and wait for the user to submit or cancel. */
+  input: (options: InputOptions) => Promise<string | undefined>;
+  /** Show a list of options and wait for the user to pick one. */
+  select: <K>(options: SelectOptions<K>) => Promise<K | undefined>;
+  /** Show a multi-step wizard and wait for it to finish. */
+  wizard: <T>(options: WizardOptions<T>) => Promise<T | undefined>;
+  /**
+   * Register a component under a name for `open()` and `restore()`.
+   * Returns a function that unregisters it.
+   */
+  register: <P extends object>(
+    type: string,
+    component: ComponentType<P>,
+    options?: DialogComponentOptions<P>,
+  ) => () => void;
 }
 
 const DialogContext = createContext<DialogManager | null>(null);
 
+/** Named DialogScopes under the nearest DialogProvider. */
+const DialogScopesContext =
+  createContext<DialogScopeRegistry<DialogManager> | null>(null);
+
 const createPlaceholderContent = () => (ctx: RenderContext) =>
   new BoxRenderable(ctx, { id: "~jsx-placeholder" });
 
@@ -159,8 +263,49 @@ function buildShowOptions(
   } as DialogShowOptionsWithJsx;
 }
 
-function useDialogManager(): DialogManager {
+/** Bridge a JSX footer to the dialog's footer region. */
+function buildFooterOptions(
+  footer: ContentFactory | undefined,
+): Pick<DialogShowOptionsWithJsx, typeof JSX_FOOTER_KEY> {
+  return footer ? { [JSX_FOOTER_KEY]: footer() } : {};
+}
+
+/** Bridge the JSX footer of async dialog options, keeping the rest. */
+function bridgeAsyncFooter<T extends AsyncFooterOptions>({
+  footer,
+  ...rest
+}: T) {
+  return { ...rest, ...buildFooterOptions(footer) };
+}
+
+const noopSubscribe = () => () => {};
+
+const EMPTY_STATE: DialogState = {
+  isOpen: false,
+  dialogs: [],
+  topDialog: undefined,
+  count: 0,
+  queue: [],
+};
+
+/**
+ * Resolve the manager of the nearest DialogProvider or DialogScope, or of
+ * the scope registered under `scope`. Named scopes resolve to `undefined`
+ * until they are mounted.
+ */
+function useDialogManager(scope?: string): DialogManager | undefined {
   const manager = useContext(DialogContext);
+  const scopes = useContext(DialogScopesContext);
+
+  const getScopedManager = useCallback(
+    () => (scope === undefined ? undefined : scopes?.get(scope)),
+    [scopes, scope],
+  );
+  const scopedManager = useSyncExternalStore(
+    scopes?.subscribe ?? noopSubscribe,
+    getScopedManager,
+    getScopedManager,
+  );
 
   if (!manager) {
     throw new Error(
@@ -177,7 +322,7 @@ function useDialogManager(): DialogManager {
     );
   }
 
-  return manager;
+  return scope === undefined ? manager : scopedManager;
 }
 
 /**
@@ -200,68 +345,165 @@ function useDialogManager(): DialogManager {
  *
  * // Close all dialogs
  * dialog.closeAll();
+ *
+ * // Show a dialog in the DialogScope named "pane-left"
+ * useDialog("pane-left").show({ content: () => <text>Hello</text> });
  * ```
  */
-export function useDialog(): DialogActions {
-  const manager = useDialogManager();
+export function useDialog(scope?: string): DialogActions {
+  const manager = useDialogManager(scope);
 
   return useMemo<DialogActions>(
-    () => ({
-      show: (options: ShowOptions) => {
-        const { content, ...rest } = options;
-        return manager.show(buildShowOptions(content, rest));
-      },
-
-      close: (id?: DialogId) => manager.close(id),
-
-      closeAll: () => manager.closeAll(),
-
-      replace: (options: ShowOptions) => {
-        const { content, ...rest } = options;
-        return manager.replace(buildShowOptions(content, rest));
-      },
-
-      // =====================================================================
-      // Async Prompt Methods (delegate to manager with factory pattern)
-      // =====================================================================
-
-      prompt: <T,>(options: PromptOptions<T>): Promise<T | undefined> => {
-        const { content, fallback, ...rest } = options;
-        return manager.prompt<T>((ctx) => ({
-          ...buildShowOptions(content, rest, ctx),
-          fallback,
-        }));
-      },
-
-      confirm: (options: ConfirmOptions): Promise<boolean> => {
-        const { content, fallback, ...rest } = options;
-        return manager.confirm((ctx) => ({
-          ...buildShowOptions(content, rest, ctx),
-          fallback,
-        }));
-      },
-
-      alert: (options: AlertOptions): Promise<void> => {
-        const { content, ...rest } = options;
-        return manager.alert((ctx) => buildShowOptions(content, rest, ctx));
-      },
-
-      choice: <K,>(options: ChoiceOptions<K>): Promise<K | undefined> => {
-        const { content, fallback, ...rest } = options;
-        return manager.choice<K>((ctx) => ({
-          ...buildShowOptions(content, rest, ctx),
-          fallback,
-        }));
-      },
-    }),
-    [manager],
+    () =>
+      createDialogActions(() => {
+        // Only named scopes resolve to undefined
+        if (!manager) throw createMissingScopeError(scope as string);
+        return manager;
+      }),
+    [manager, scope],
   );
 }
 
+/** Build the actions of `useDialog()` around a lazily resolved manager. */
+function createDialogActions(getManager: () => DialogManager): DialogActions {
+  return {
+    show: (options: ShowOptions) => {
+      const { content, footer, ...rest } = options;
+      return getManager().show({
+        ...buildShowOptions(content, rest),
+        ...buildFooterOptions(footer),
+      });
+    },
+
+    close: (id?: DialogId, reason?: DialogCloseReason) =>
+      getManager().close(id, reason),
+
+    closeAll: () => getManager().closeAll(),
+
+    open: <P,>(type: string, props: P, options?: DialogOpenOptions) =>
+      getManager().open(type, props, options),
+
+    register: <P extends object>(
+      type: string,
+      Component: ComponentType<P>,
+      options?: DialogComponentOptions<P>,
+    ) =>
+      getManager().register<P>(type, (props) => {
+        const { footer, ...rest } =
+          typeof options === "function" ? options(props) : (options ?? {});
+        return {
+          ...buildShowOptions(() => createElement(Component, props), rest),
+          ...buildFooterOptions(footer),
+        };
+      }),
+
+    serialize: () => getManager().serialize(),
+    restore: (state: SerializedDialogState) => getManager().restore(state),
+
+    on: <K extends DialogEventName>(
+      event: K,
+      listener: DialogEventListener<K>,
+    ) => getManager().on(event, listener),
+
+    replace: (options: ShowOptions) => {
+      const { content, footer, ...rest } = options;
+      return getManager().replace({
+        ...buildShowOptions(content, rest),
+        ...buildFooterOptions(footer),
+      });
+    },
+
+    // =====================================================================
+    // Async Prompt Methods (delegate to manager with factory pattern)
+    // =====================================================================
+
+    prompt: <T,>(options: PromptOptions<T>): Promise<T | undefined> => {
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      return getManager().prompt<T>((ctx) => ({
+        ...buildShowOptions(content, rest, ctx),
+        fallback,
+      }));
+    },
+
+    confirm: (options: ConfirmOptions): Promise<boolean> => {
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      if (!content) {
+        return getManager().confirm({ ...rest, fallback });
+      }
+      return getManager().confirm((ctx) => ({
+        ...buildShowOptions(content, rest, ctx),
+        fallback,
+      }));
+    },
+
+    alert: (options: AlertOptions): Promise<void> => {
+      const { content, ...rest } = bridgeAsyncFooter(options);
+      return getManager().alert((ctx) => buildShowOptions(content, rest, ctx));
+    },
+
+    choice: <K,>(options: ChoiceOptions<K>): Promise<K | undefined> => {
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      return getManager().choice<K>((ctx) => ({
+        ...buildShowOptions(content, rest, ctx),
+        fallback,
+      }));
+    },
+
+    input: (options: InputOptions): Promise<string | undefined> => {
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      if (!content) {
+        return getManager().input({ ...rest, fallback });
+      }
+      return getManager().prompt<string>((ctx) => ({
+        ...buildShowOptions(content, rest, ctx),
+        fallback,
+      }));
+    },
+
+    select: <K,>(options: SelectOptions<K>): Promise<K | undefined> => {
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      if (!content) {
+        return getManager().select<K>({ ...rest, fallback });
+      }
+      return getManager().choice<K>((ctx) => ({
+        ...buildShowOptions(content, rest, ctx),
+        fallback,
+      }));
+    },
+
+    wizard: <T,>(options: WizardOptions<T>): Promise<T | undefined> =>
+      getManager().wizard<T, WizardContent<T>>(options, (content, ctx) =>
+        buildShowOptions(content, {}, ctx),
+      ),
+  };
+}
+
+/**
+ * Dialog actions bound to the most recently mounted DialogProvider, for code
+ * outside the component tree such as command handlers and key bindings.
+ *
+ * Calls made while no provider is mounted throw.
+ *
+ * @example
+ * ```tsx
+ * import { dialog } from "@opentui-ui/dialog/react";
+ *
+ * commands.register("file.delete", async (file) => {
+ *   const confirmed = await dialog.confirm({ title: `Delete ${file.name}?` });
+ *   if (confirmed) await file.delete();
+ * });
+ * ```
+ */
+export const dialog: DialogActions = createDialogActions(
+  getActiveDialogManager,
+);
+
 /**
  * Subscribe to reactive dialog state with a selector.
  *
  * Only re-renders when the selected value changes (using reference equality).
+ * Pass a scope name to read the state of that DialogScope instead of the
+ * nearest one.
  *
  * @example
  * ```tsx
@@ -277,21 +519,37 @@ export function useDialog(): DialogActions {
  * }
  * ```
  */
-export function useDialogState<T>(selector: (state: DialogState) => T): T {
-  const manager = useDialogManager();
+export function useDialogState<T>(
+  selector: (state: DialogState) => T,
+  scope?: string,
+): T {
+  const manager = useDialogManager(scope);
 
   const subscribe = useMemo(
-    () => (onStoreChange: () => void) => manager.subscribe(onStoreChange),
+    () =>
+      manager
+        ? (onStoreChange: () => void) => {
+            const unsubscribe = manager.subscribe(onStoreChange);
+            const unsubscribeQueue = manager.subscribeQueue(onStoreChange);
+            return () => {
+              unsubscribe();
+              unsubscribeQueue();
+            };
+          }
+        : noopSubscribe,
     [manager],
   );
 
   const getSnapshot = useCallback(() => {
+    if (!manager) return selector(EMPTY_STATE);
+
     const dialogs = manager.getDialogs();
     const state: DialogState = {
       isOpen: dialogs.length > 0,
       dialogs,
       topDialog: dialogs.length > 0 ? dialogs[dialogs.length - 1] : undefined,
       count: dialogs.length,
+      queue: manager.getQueue(),
     };
     return selector(state);
   }, [manager, selector]);
@@ -305,7 +563,9 @@ export function useDialogState<T>(selector: (state: DialogState) => T): T {
  * This prevents keyboard events from affecting stacked dialogs that are not focused.
  * Use this instead of `useKeyboard` inside dialog content components.
  *
- * @param handler - Keyboard event handler (only called when dialog is topmost)
+ * @param handler - Keyboard event handler (only called when dialog is topmost),
+ *   or handlers by key binding such as `"y"` or `"ctrl+s"`. Matched bindings
+ *   prevent the key's default handling.
  * @param dialogId - The dialog's ID from context (e.g., `ctx.dialogId`)
  *
  * @example
@@ -318,27 +578,38 @@ export function useDialogState<T>(selector: (state: DialogState) => T): T {
  *
  *   return <text>Press Enter to confirm</text>;
  * }
+ *
+ * // Or declare the shortcuts
+ * useDialogKeyboard({ y: () => resolve(true), n: () => resolve(false) }, dialogId);
  * ```
  */
 export function useDialogKeyboard(
-  handler: (key: KeyEvent) => void | Promise<void>,
+  handler: ((key: KeyEvent) => void | Promise<void>) | DialogKeyHandlers,
   dialogId: DialogId,
 ): void {
   const isTopmost = useDialogState((s) => s.topDialog?.id === dialogId);
 
   useKeyboard((key) => {
-    if (isTopmost) {
+    if (!isTopmost) return;
+
+    if (typeof handler === "function") {
       handler(key);
+    } else if (dispatchKeyBindings(key, handler)) {
+      // Keep the key from also pressing a focused button
+      key.preventDefault();
     }
   });
 }
 
-export interface DialogProviderProps extends DialogContainerOptions {
+export interface DialogProviderProps
+  extends DialogContainerOptions,
+    DialogManagerOptions {
   children: ReactNode;
 }
 
 /**
- * Provides dialog functionality to children via useDialog() and useDialogState() hooks.
+ * Provides dialog functionality to children via useDialog() and useDialogState() hooks,
+ * and to the module-level `dialog` facade while mounted.
  *
  * @example
  * ```tsx
@@ -348,12 +619,13 @@ export interface DialogProviderProps extends DialogContainerOptions {
  * ```
  */
 export function DialogProvider(props: DialogProviderProps) {
-  const { children, ...containerOptions } = props;
+  const { children, mode, ...containerOptions } = props;
 
   const renderer = useRenderer();
   const dimensions = useTerminalDimensions();
 
-  const [manager] = useState(() => new DialogManager(renderer));
+  const [manager] = useState(() => new DialogManager(renderer, { mode }));
+  const [scopes] = useState(() => createDialogScopeRegistry<DialogManager>());
 
   const [container] = useState(
     () =>
@@ -363,12 +635,6 @@ export function DialogProvider(props: DialogProviderProps) {
       }),
   );
 
-  const dialogs = useSyncExternalStore(
-    (onStoreChange) => manager.subscribe(onStoreChange),
-    () => manager.getDialogs(),
-    () => manager.getDialogs(),
-  );
-
   useEffect(() => {
     renderer.root.add(container);
 
@@ -380,33 +646,164 @@ export function DialogProvider(props: DialogProviderProps) {
   }, [container, manager, renderer]);
 
   useEffect(() => {
-    container.updateDimensions(dimensions.width);
-  }, [container, dimensions.width]);
+    container.updateDimensions(dimensions.width, dimensions.height);
+  }, [container, dimensions.width, dimensions.height]);
+
+  useEffect(() => activateDialogManager(manager), [manager]);
+
+  const portals = useDialogPortals(manager, container);
+
+  return (
+    <DialogScopesContext.Provider value={scopes}>
+      <DialogContext.Provider value={manager}>
+        {children}
+        {portals}
+      </DialogContext.Provider>
+    </DialogScopesContext.Provider>
+  );
+}
+
+export interface DialogScopeProps
+  extends DialogContainerOptions,
+    DialogManagerOptions {
+  /** Register the scope under this name for `useDialog(name)`. */
+  name?: string;
+  /** Layout of the box that wraps the children and bounds the dialogs. */
+  style?: BoxProps["style"];
+  children: ReactNode;
+}
+
+/**
+ * Region with its own dialog manager. Dialogs shown through it are laid out
+ * inside its box and only block that box, e.g. one pane of a split layout.
+ *
+ * `useDialog()` inside the scope uses the scope's manager. Give the scope a
+ * `name` to reach it from elsewhere with `useDialog(name)`.
+ *
+ * @example
+ * ```tsx
+ * <DialogProvider>
+ *   <box flexDirection="row">
+ *     <DialogScope name="pane-left" style={{ flexGrow: 1 }}>
+ *       <FileTree />
+ *     </DialogScope>
+ *     <Editor />
+ *   </box>
+ * </DialogProvider>
+ * ```
+ */
+export function DialogScope(props: DialogScopeProps) {
+  const { children, name, style, mode, ...containerOptions } = props;
+
+  const renderer = useRenderer();
+  const scopes = useContext(DialogScopesContext);
+
+  const [manager] = useState(() => new DialogManager(renderer, { mode }));
+  const [target, setTarget] = useState<BoxRenderable | null>(null);
+  const [container, setContainer] = useState<DialogContainerRenderable | null>(
+    null,
+  );
+
+  // The container mounts itself into the box once it exists
+  // biome-ignore lint/correctness/useExhaustiveDependencies: container options are read once, like in DialogProvider
+  useEffect(() => {
+    if (!target) return;
+
+    const scoped = new DialogContainerRenderable(renderer, {
+      manager,
+      target,
+      ...containerOptions,
+    });
+    setContainer(scoped);
+
+    return () => {
+      setContainer(null);
+      scoped.destroyRecursively();
+    };
+  }, [manager, renderer, target]);
+
+  useEffect(() => () => manager.destroy(), [manager]);
+
+  useEffect(() => {
+    if (!scopes || name === undefined) return;
+    return scopes.register(name, manager);
+  }, [manager, name, scopes]);
+
+  const portals = useDialogPortals(manager, container);
+
+  return (
+    <DialogContext.Provider value={manager}>
+      <box ref={setTarget} style={style}>
+        {children}
+      </box>
+      {portals}
+    </DialogContext.Provider>
+  );
+}
+
+/**
+ * Portal JSX content into the dialogs of a container, and reveal deferred
+ * dialogs once their content is mounted.
+ */
+function useDialogPortals(
+  manager: DialogManager,
+  container: DialogContainerRenderable | null,
+): ReactNode[] {
+  const dialogs = useSyncExternalStore(
+    (onStoreChange) => manager.subscribe(onStoreChange),
+    () => manager.getDialogs(),
+    () => manager.getDialogs(),
+  );
+
+  // Closing dialogs stay mounted during their exit transition, so re-render
+  // once they have actually left the tree
+  const [removedCount, setRemovedCount] = useState(0);
+
+  useEffect(() => {
+    if (!container) return;
+
+    const onRemoved = () => setRemovedCount((count) => count + 1);
+    container.on(DialogContainerEvents.DIALOG_REMOVED, onRemoved);
+
+    return () => {
+      container.off(DialogContainerEvents.DIALOG_REMOVED, onRemoved);
+    };
+  }, [container]);
 
   const portals = useMemo(() => {
-    if (!dialogs || dialogs.length === 0) {
-      return [];
-    }
+    // dialogs and removedCount trigger re-runs when mounted dialogs change
+    void dialogs;
+    void removedCount;
 
     const portals: ReactNode[] = [];
+    if (!container) return portals;
 
-    for (const [id, dialogRenderable] of container.getDialogRenderables()) {
+    for (const dialogRenderable of container.getMountedDialogRenderables()) {
       const dialogWithJsx = dialogRenderable.dialog as DialogWithJsx;
+      const { id } = dialogWithJsx;
       const jsxContent = dialogWithJsx[JSX_CONTENT_KEY];
+      const jsxFooter = dialogWithJsx[JSX_FOOTER_KEY];
 
       if (jsxContent !== undefined) {
-        portals.push(createPortal(jsxContent, dialogRenderable, id));
+        portals.push(createPortal(jsxContent, dialogRenderable.body, id));
+      }
+
+      if (jsxFooter !== undefined && dialogRenderable.footer) {
+        portals.push(
+          createPortal(jsxFooter, dialogRenderable.footer, `${id}-footer`),
+        );
       }
     }
 
     return portals;
-  }, [container, dialogs]);
+  }, [container, dialogs, removedCount]);
 
   // Set dialog visibility
   // requestAnimationFrame is polyfilled by @opentui/core
   useLayoutEffect(() => {
     // dialogs triggers re-run when dialog state changes
     void dialogs;
+    if (!container) return;
 
     const raf = (globalThis as Record<string, unknown>)
       .requestAnimationFrame as (callback: () => void) => number;
@@ -418,29 +815,61 @@ export function DialogProvider(props: DialogProviderProps) {
     }
   }, [container, dialogs]);
 
-  return (
-    <DialogContext.Provider value={manager}>
-      {children}
-      {portals}
-    </DialogContext.Provider>
-  );
+  return portals;
 }
 
 // =============================================================================
 // Re-exports for convenience
 // =============================================================================
 
+export { DialogAbortedError } from "./errors";
 export type {
   AlertContext,
   ChoiceContext,
   ConfirmContext,
   DialogState,
   PromptContext,
+  WizardContext,
 } from "./prompts";
 export { type DialogTheme, themes } from "./themes";
 export type {
+  DialogAnchor,
+  DialogBackdropMode,
+  DialogBackdropOpacity,
+  DialogClosedEvent,
+  DialogCloseReason,
+  DialogClosingEvent,
   DialogContainerOptions,
+  DialogCtrlCBehavior,
+  DialogDimensions,
+  DialogDismissedEvent,
+  DialogDismissReason,
+  DialogEvent,
+  DialogEventListener,
+  DialogEventMap,
+  DialogEventName,
+  DialogFocusRestoredEvent,
   DialogId,
+  DialogKeyBinding,
+  DialogKeyHandlers,
+  DialogKeymap,
+  DialogKeys,
+  DialogManagerOptions,
+  DialogMode,
+  DialogOpenedEvent,
+  DialogOpenOptions,
+  DialogOpenReason,
+  DialogPlacement,
+  DialogPosition,
+  DialogResolvedEvent,
+  DialogSelectOption,
   DialogSize,
+  DialogSizePreset,
   DialogStyle,
+  DialogTransition,
+  DialogTransitionPreset,
+  DialogUpdatedEvent,
+  DialogUpdateReason,
+  SerializedDialog,
+  SerializedDialogState,
 } from "./types";
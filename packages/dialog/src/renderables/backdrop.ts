@@ -1,24 +1,45 @@
 import {
   BoxRenderable,
+  type OptimizedBuffer,
   parseColor,
   type RenderContext,
   type RGBA,
 } from "@opentui/core";
 import { normalizeOpacity } from "@opentui-ui/utils";
 import { DEFAULT_BACKDROP_COLOR, DEFAULT_BACKDROP_OPACITY } from "../themes";
-import type { DialogContainerOptions, InternalDialog } from "../types";
+import type {
+  DialogBackdropMode,
+  DialogContainerOptions,
+  InternalDialog,
+} from "../types";
+import { animate, dimBufferRegion, resolveTransition } from "../utils";
 
 export interface BackdropRenderableOptions {
+  id?: string;
   containerOptions: DialogContainerOptions;
+  /** Stack level, passed to a `backdropOpacity` function. */
+  level?: number;
   onClick: () => void;
 }
 
+/**
+ * Full-screen layer dimming everything below the dialog it belongs to,
+ * either by painting over it or, in `dim` mode, by recoloring the cells
+ * already drawn.
+ */
 export class BackdropRenderable extends BoxRenderable {
   private _containerOptions: DialogContainerOptions;
+  private _dialog: InternalDialog | undefined;
+  private _level: number;
+  /** Multiplier applied to the backdrop alpha while fading. */
+  private _fade: number = 1;
+  private _cancelTransition: (() => void) | null = null;
 
   constructor(ctx: RenderContext, options: BackdropRenderableOptions) {
+    const level = options.level ?? 0;
+
     super(ctx, {
-      id: "dialog-backdrop",
+      id: options.id ?? "dialog-backdrop",
       position: "absolute",
       left: 0,
       top: 0,
@@ -27,18 +48,116 @@ export class BackdropRenderable extends BoxRenderable {
       backgroundColor: BackdropRenderable.computeColor(
         undefined,
         options.containerOptions,
+        level,
       ),
       visible: false,
       onMouseUp: options.onClick,
     });
     this._containerOptions = options.containerOptions;
+    this._level = level;
+  }
+
+  public get level(): number {
+    return this._level;
+  }
+
+  public set level(value: number) {
+    if (this._level === value) return;
+    this._level = value;
+    this.applyColor();
   }
 
   public updateStyle(dialog?: InternalDialog): void {
-    this.backgroundColor = BackdropRenderable.computeColor(
+    this._dialog = dialog;
+    this.applyColor();
+  }
+
+  /** Show the backdrop, fading its alpha in using the dialog's transition. */
+  public fadeIn(dialog?: InternalDialog): void {
+    if (!this.visible) {
+      this._fade = 0;
+      this.visible = true;
+    }
+    this.runTransition(dialog, 1);
+  }
+
+  /** Fade the backdrop alpha out, then hide it and call `onComplete`. */
+  public fadeOut(dialog?: InternalDialog, onComplete?: () => void): void {
+    this.runTransition(dialog, 0, () => {
+      this.visible = false;
+      onComplete?.();
+    });
+  }
+
+  private runTransition(
+    dialog: InternalDialog | undefined,
+    to: number,
+    onComplete?: () => void,
+  ): void {
+    this._cancelTransition?.();
+
+    const { duration, easing } = resolveTransition(
       dialog,
       this._containerOptions,
     );
+
+    this._cancelTransition = animate({
+      from: this._fade,
+      to,
+      duration,
+      easing,
+      onUpdate: (fade) => {
+        this._fade = fade;
+        this.applyColor();
+      },
+      onComplete: () => {
+        this._cancelTransition = null;
+        onComplete?.();
+      },
+    });
+  }
+
+  private get mode(): DialogBackdropMode {
+    return (
+      this._dialog?.backdropMode ??
+      this._containerOptions.backdropMode ??
+      "overlay"
+    );
+  }
+
+  protected override renderSelf(buffer: OptimizedBuffer): void {
+    if (this.mode !== "dim") {
+      super.renderSelf(buffer);
+      return;
+    }
+
+    // Everything below this layer is already in the buffer
+    const color = BackdropRenderable.computeColor(
+      this._dialog,
+      this._containerOptions,
+      this._level,
+    );
+    const desaturate =
+      this._dialog?.backdropDesaturate ??
+      this._containerOptions.backdropDesaturate ??
+      0;
+
+    dimBufferRegion(buffer, this, {
+      color,
+      amount: color.a * this._fade,
+      desaturate: Math.min(1, Math.max(0, desaturate)) * this._fade,
+    });
+  }
+
+  private applyColor(): void {
+    const color = BackdropRenderable.computeColor(
+      this._dialog,
+      this._containerOptions,
+      this._level,
+    );
+    color.a *= this._fade;
+    this.backgroundColor = color;
+    this.requestRender();
   }
 
   public updateDimensions(width: number, height: number): void {
@@ -48,18 +167,30 @@ export class BackdropRenderable extends BoxRenderable {
 
   public updateContainerOptions(options: DialogContainerOptions): void {
     this._containerOptions = options;
+    this.applyColor();
+  }
+
+  public override destroy(): void {
+    this._cancelTransition?.();
+    this._cancelTransition = null;
+    super.destroy();
   }
 
   private static computeColor(
     dialog: InternalDialog | undefined,
     containerOptions: DialogContainerOptions,
+    level: number,
   ): RGBA {
     const color =
       dialog?.backdropColor ??
       containerOptions.backdropColor ??
       DEFAULT_BACKDROP_COLOR;
+    const containerOpacity =
+      typeof containerOptions.backdropOpacity === "function"
+        ? containerOptions.backdropOpacity(level)
+        : containerOptions.backdropOpacity;
     const opacity = normalizeOpacity(
-      dialog?.backdropOpacity ?? containerOptions.backdropOpacity,
+      dialog?.backdropOpacity ?? containerOpacity,
       DEFAULT_BACKDROP_OPACITY,
       "@opentui-ui/dialog",
     );
@@ -0,0 +1,78 @@
+import {
+  type KeyEvent,
+  type RenderContext,
+  TextRenderable,
+} from "@opentui/core";
+
+export interface DialogButtonRenderableOptions {
+  id?: string;
+  label: string;
+  /** Label color, and background color while focused. */
+  color?: string;
+  /** Label color while focused. */
+  focusedTextColor?: string;
+  onPress: () => void;
+}
+
+/**
+ * Focusable button used by the built-in prompt dialogs.
+ * Enter or Space presses it; Left/Right move focus between sibling buttons.
+ */
+export class DialogButtonRenderable extends TextRenderable {
+  protected override _focusable = true;
+  private _color: string | undefined;
+  private _focusedTextColor: string | undefined;
+  private _onPress: () => void;
+
+  constructor(ctx: RenderContext, options: DialogButtonRenderableOptions) {
+    super(ctx, {
+      id: options.id,
+      content: ` ${options.label} `,
+      fg: options.color,
+      onMouseUp: () => options.onPress(),
+    });
+
+    this._color = options.color;
+    this._focusedTextColor = options.focusedTextColor;
+    this._onPress = options.onPress;
+  }
+
+  public override focus(): void {
+    super.focus();
+    this.applyFocusStyle();
+  }
+
+  public override blur(): void {
+    super.blur();
+    this.applyFocusStyle();
+  }
+
+  private applyFocusStyle(): void {
+    this.fg = this._focused ? this._focusedTextColor : this._color;
+    this.bg = this._focused ? this._color : undefined;
+  }
+
+  public override handleKeyPress(key: KeyEvent): boolean {
+    switch (key.name) {
+      case "return":
+      case "space":
+        this._onPress();
+        return true;
+      case "left":
+        return this.focusSibling(-1);
+      case "right":
+        return this.focusSibling(1);
+      default:
+        return false;
+    }
+  }
+
+  private focusSibling(step: number): boolean {
+    const buttons = (this.parent?.getChildren() ?? []).filter(
+      (child) => child instanceof DialogButtonRenderable,
+    );
+    const sibling = buttons[buttons.indexOf(this) + step];
+    sibling?.focus();
+    return sibling !== undefined;
+  }
+}
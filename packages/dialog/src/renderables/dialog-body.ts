@@ -0,0 +1,41 @@
+import {
+  type Renderable,
+  type RenderContext,
+  ScrollBoxRenderable,
+} from "@opentui/core";
+
+export interface DialogBodyRenderableOptions {
+  id?: string;
+}
+
+/**
+ * Scrollable region holding a dialog's content.
+ * It grows with the content until the dialog hits its `maxHeight`, then
+ * scrolls. Unlike a plain scroll box it is not a tab stop, so the focus trap
+ * only visits the content's own focusables.
+ */
+export class DialogBodyRenderable extends ScrollBoxRenderable {
+  protected override _focusable = false;
+
+  constructor(ctx: RenderContext, options: DialogBodyRenderableOptions = {}) {
+    super(ctx, {
+      id: options.id,
+      flexGrow: 1,
+      flexShrink: 1,
+      scrollY: true,
+      scrollX: false,
+    });
+  }
+
+  /** Scroll the least distance needed to show `target` in full. */
+  public scrollChildIntoView(target: Renderable): void {
+    const offset = target.y - this.content.y;
+    const viewportHeight = this.viewport.height;
+
+    if (offset < this.scrollTop) {
+      this.scrollTop = offset;
+    } else if (offset + target.height > this.scrollTop + viewportHeight) {
+      this.scrollTop = offset + target.height - viewportHeight;
+    }
+  }
+}
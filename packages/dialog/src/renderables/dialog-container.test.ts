@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  BoxRenderable,
+  type KeyEvent,
+  type RenderContext,
+  TextRenderable,
+} from "@opentui/core";
+import {
+  createTestRenderer,
+  type MockInput,
+  type MockMouse,
+  type TestRenderer,
+} from "@opentui/core/testing";
+import { DialogManager } from "../manager";
+import type { DialogCloseReason, DialogPosition } from "../types";
+import {
+  DialogContainerRenderable,
+  type DialogContainerRenderableOptions,
+} from "./dialog-container";
+
+const content = (ctx: RenderContext) => new BoxRenderable(ctx, {});
+
+let renderer: TestRenderer;
+let mockInput: MockInput;
+let mockMouse: MockMouse;
+let renderOnce: () => Promise<void>;
+let manager: DialogManager;
+let container: DialogContainerRenderable;
+
+const mountContainer = (
+  options: Omit<DialogContainerRenderableOptions, "manager"> = {},
+) => {
+  container = new DialogContainerRenderable(renderer, { manager, ...options });
+  renderer.root.add(container);
+};
+
+/** Press a key and report whether a handler before us consumed it */
+const pressKey = (...args: Parameters<MockInput["pressKey"]>): boolean => {
+  let prevented = false;
+  const listener = (key: KeyEvent) => {
+    prevented = key.defaultPrevented;
+  };
+  renderer.keyInput.on("keypress", listener);
+  mockInput.pressKey(...args);
+  renderer.keyInput.off("keypress", listener);
+  return prevented;
+};
+
+beforeEach(async () => {
+  ({ renderer, mockInput, mockMouse, renderOnce } = await createTestRenderer({
+    width: 80,
+    height: 24,
+    exitOnCtrlC: false,
+  }));
+  manager = new DialogManager(renderer);
+});
+
+afterEach(() => {
+  container.destroy();
+  manager.destroy();
+  renderer.destroy();
+});
+
+describe("focus trap", () => {
+  test("modal dialogs swallow Tab with nothing to focus", () => {
+    mountContainer();
+    manager.show({ content });
+
+    expect(pressKey("\t")).toBe(true);
+    expect(pressKey("\t", { shift: true })).toBe(true);
+  });
+
+  test("Tab passes through without an open dialog", () => {
+    mountContainer();
+
+    expect(pressKey("\t")).toBe(false);
+  });
+});
+
+describe("close keys", () => {
+  test("Escape closes the top dialog with reason escape", async () => {
+    const reasons: DialogCloseReason[] = [];
+    mountContainer();
+    manager.show({ content, onClose: (reason) => reasons.push(reason) });
+
+    mockInput.pressEscape();
+    // A lone ESC is only parsed once no escape sequence follows
+    await Bun.sleep(50);
+
+    expect(manager.isOpen()).toBe(false);
+    expect(reasons).toEqual(["escape"]);
+  });
+
+  test("Ctrl+C closes every dialog with reason ctrl-c", () => {
+    const reasons: DialogCloseReason[] = [];
+    mountContainer({ keys: { ctrlC: "closeAll" } });
+    manager.show({ content, onClose: (reason) => reasons.push(reason) });
+    manager.show({ content, onClose: (reason) => reasons.push(reason) });
+
+    expect(pressKey("c", { ctrl: true })).toBe(true);
+
+    expect(manager.isOpen()).toBe(false);
+    expect(reasons).toEqual(["ctrl-c", "ctrl-c"]);
+  });
+
+  test("Ctrl+C is ignored by default", () => {
+    mountContainer();
+    manager.show({ content });
+
+    expect(pressKey("c", { ctrl: true })).toBe(false);
+    expect(manager.isOpen()).toBe(true);
+  });
+});
+
+describe("dragging", () => {
+  test("dragging the title of a background dialog raises and moves it", async () => {
+    const moves: DialogPosition[] = [];
+    mountContainer();
+    manager.show({
+      id: "back",
+      content,
+      title: "Back",
+      modal: false,
+      draggable: true,
+      anchor: { x: 0, y: 0 },
+      style: { border: true },
+      onMove: (position) => moves.push(position),
+    });
+    manager.show({
+      id: "front",
+      content,
+      modal: false,
+      anchor: { x: 40, y: 10 },
+    });
+    await renderOnce();
+
+    const title = renderer.root.findDescendantById("dialog-back-title");
+    if (!title) throw new Error("Title is not mounted");
+    await mockMouse.drag(title.x, title.y, title.x + 5, title.y + 3);
+
+    expect(manager.getDialogs().map((d) => d.id)).toEqual(["front", "back"]);
+    expect(moves).toHaveLength(1);
+  });
+});
+
+describe("update in place", () => {
+  const getDialog = (id: string) => {
+    const dialog = container
+      .getMountedDialogRenderables()
+      .find((renderable) => renderable.dialog.id === id);
+    if (!dialog) throw new Error(`Dialog "${id}" is not mounted`);
+    return dialog;
+  };
+
+  test("removing border options restores the defaults", () => {
+    mountContainer();
+    manager.show({
+      id: "updated",
+      content,
+      style: { border: true, borderColor: "#ff0000", borderStyle: "double" },
+    });
+    manager.show({ id: "updated", content, style: { border: true } });
+    manager.show({ id: "fresh", content, style: { border: true } });
+
+    const updated = getDialog("updated");
+    const fresh = getDialog("fresh");
+    expect(updated.borderColor).toEqual(fresh.borderColor);
+    expect(updated.borderStyle).toEqual(fresh.borderStyle);
+    expect(updated.border).toEqual(fresh.border);
+  });
+
+  test("re-showing or raising keeps the header unless it changed", () => {
+    const title = () => renderer.root.findDescendantById("dialog-a-title");
+    mountContainer();
+    manager.show({ id: "a", content, title: "Upload", modal: false });
+    const header = title();
+    manager.show({ id: "b", content, modal: false });
+
+    manager.show({ id: "a", content, title: "Upload", modal: false });
+    manager.raise("b");
+    manager.raise("a");
+    expect(title()).toBe(header);
+
+    manager.show({ id: "a", content, title: "Uploaded", modal: false });
+    expect(title()).not.toBe(header);
+  });
+
+  test("a stable factory reading mutable state keeps its content", () => {
+    const upload = { percent: 0 };
+    let mounts = 0;
+    const uploadContent = (ctx: RenderContext) => {
+      mounts++;
+      return new TextRenderable(ctx, {
+        id: "upload-label",
+        content: `${upload.percent}%`,
+      });
+    };
+    mountContainer();
+    manager.show({ id: "upload", content: uploadContent });
+    const label = renderer.root.findDescendantById("upload-label");
+
+    upload.percent = 50;
+    manager.show({ id: "upload", content: uploadContent, title: "Uploading" });
+
+    expect(mounts).toBe(1);
+    expect(renderer.root.findDescendantById("upload-label")).toBe(label);
+  });
+
+  test("removing the border keeps it off", () => {
+    mountContainer();
+    manager.show({
+      id: "updated",
+      content,
+      style: { border: true, borderColor: "#ff0000" },
+    });
+    manager.show({ id: "updated", content, style: { border: false } });
+
+    expect(getDialog("updated").border).toBe(false);
+  });
+});
@@ -1,24 +1,52 @@
-import { BoxRenderable, type RenderContext } from "@opentui/core";
-import { DIALOG_Z_INDEX } from "../constants";
+import {
+  BoxRenderable,
+  type OptimizedBuffer,
+  type Renderable,
+  type RenderContext,
+} from "@opentui/core";
+import { DEFAULT_KEYMAP, DIALOG_Z_INDEX } from "../constants";
 import type { DialogManager } from "../manager";
 import type {
+  DialogBackdropMode,
+  DialogBackdropOpacity,
   DialogContainerOptions,
+  DialogDimensions,
   DialogId,
+  DialogKeymap,
   DialogOptions,
   DialogSize,
+  DialogSizePreset,
+  DialogTransition,
+  DialogTransitionPreset,
   InternalDialog,
 } from "../types";
-import { isDialogToClose } from "../types";
+import { isDialogToClose, isModalDialog } from "../types";
+import {
+  type DialogKeyInput,
+  isDescendantOf,
+  matchesKeyBinding,
+} from "../utils";
 import { BackdropRenderable } from "./backdrop";
+import { DialogButtonRenderable } from "./button";
 import { DialogRenderable } from "./dialog";
 
 export interface DialogContainerRenderableOptions
   extends DialogContainerOptions {
   manager: DialogManager;
+  /**
+   * Mount inside this renderable and cover only its box instead of the
+   * whole screen. Dialogs are sized and clamped to the box, modal backdrops
+   * only block it, and keys are handled while focus is inside it.
+   */
+  target?: Renderable;
+}
+
+export enum DialogContainerEvents {
+  /** Emitted with the dialog id once a dialog renderable has left the tree. */
+  DIALOG_REMOVED = "dialog-removed",
 }
 
-export interface DialogKeyboardEvent {
-  name?: string;
+export interface DialogKeyboardEvent extends DialogKeyInput {
   preventDefault?: () => void;
 }
 
@@ -32,24 +60,35 @@ export interface DialogKeyboardEvent {
  * ctx.root.add(container);
  *
  * manager.show({ content: (ctx) => new TextRenderable(ctx, { content: "Hi" }) });
+ *
+ * // Scoped to a pane; the container adds itself to the target
+ * new DialogContainerRenderable(ctx, { manager: paneManager, target: pane });
  * ```
  */
 export class DialogContainerRenderable extends BoxRenderable {
   private _manager: DialogManager;
+  private _target: Renderable | null;
   private _options: DialogContainerOptions;
-  private _backdrop: BackdropRenderable;
+  /** Backdrop layer of each open modal dialog. */
+  private _backdrops: Map<DialogRenderable, BackdropRenderable> = new Map();
+  private _closingBackdrops: Set<BackdropRenderable> = new Set();
+  private _backdropCounter = 0;
   private _dialogRenderables: Map<DialogId, DialogRenderable> = new Map();
+  private _closingRenderables: Set<DialogRenderable> = new Set();
   private _unsubscribe: (() => void) | null = null;
   private _destroyed: boolean = false;
+  private _focusTimeout?: ReturnType<typeof setTimeout>;
 
   constructor(ctx: RenderContext, options: DialogContainerRenderableOptions) {
+    const { target } = options;
+
     super(ctx, {
-      id: "dialog-container",
+      id: target ? `dialog-container-${target.id}` : "dialog-container",
       position: "absolute",
       left: 0,
       top: 0,
-      width: ctx.width,
-      height: ctx.height,
+      width: target ? "100%" : ctx.width,
+      height: target ? "100%" : ctx.height,
       zIndex: DIALOG_Z_INDEX,
       alignItems: "center",
       justifyContent: "center",
@@ -58,18 +97,14 @@ export class DialogContainerRenderable extends BoxRenderable {
     });
 
     this._manager = options.manager;
-    const { manager: _, ...containerOptions } = options;
+    this._target = target ?? null;
+    const { manager: _, target: _target, ...containerOptions } = options;
     this._options = containerOptions;
 
-    this._backdrop = new BackdropRenderable(ctx, {
-      containerOptions: this._options,
-      onClick: () => this.handleBackdropClick(),
-    });
-    this.add(this._backdrop);
-
     this._ctx.keyInput.on("keypress", this.handleKeyboard);
 
     this.subscribe();
+    target?.add(this);
   }
 
   private subscribe(): void {
@@ -88,27 +123,101 @@ export class DialogContainerRenderable extends BoxRenderable {
 
   /**
    * Handle keyboard events. Returns true if handled (e.g., ESC closed a dialog).
+   * Runs before the focused renderable sees the key.
    */
   private handleKeyboard = (evt: DialogKeyboardEvent): boolean => {
-    const key = evt.name;
-    if (key === "escape" && this._dialogRenderables.size > 0) {
-      const topDialog = this.getTopDialogRenderable();
-      if (topDialog) {
-        // Per-dialog closeOnEscape takes precedence over container-level
-        const closeOnEscape =
-          topDialog.dialog.closeOnEscape ?? this._options.closeOnEscape;
-        if (closeOnEscape === false) {
-          return false;
-        }
-        evt.preventDefault?.();
-        this._manager.close(topDialog.dialog.id);
-        return true;
+    if (!this.ownsKeyboard()) {
+      return false;
+    }
+
+    const target = this.getKeyboardTarget();
+    if (!target) {
+      return false;
+    }
+
+    // Trap Tab/Shift+Tab inside the dialog that owns the keyboard. Modal
+    // dialogs swallow it even with nothing to cycle, so focus can't escape.
+    if (
+      evt.name === "tab" &&
+      (target.cycleFocus(evt.shift === true) || isModalDialog(target.dialog))
+    ) {
+      evt.preventDefault?.();
+      return true;
+    }
+
+    const { dialog } = target;
+    const keys = this.getKeymap(dialog);
+
+    if (keys.ctrlC !== "ignore" && matchesKeyBinding(evt, "ctrl+c")) {
+      evt.preventDefault?.();
+      if (keys.ctrlC === "closeAll") {
+        this._manager.closeAll("ctrl-c");
+      } else {
+        this._manager.close(dialog.id, "ctrl-c");
       }
+      return true;
+    }
+
+    // Per-dialog closeOnEscape takes precedence over container-level
+    const closeOnEscape = dialog.closeOnEscape ?? this._options.closeOnEscape;
+    if (
+      closeOnEscape !== false &&
+      keys.close !== false &&
+      matchesKeyBinding(evt, keys.close)
+    ) {
+      evt.preventDefault?.();
+      this._manager.close(dialog.id, "escape");
+      return true;
+    }
+
+    if (
+      dialog.defaultAction &&
+      keys.defaultAction !== false &&
+      matchesKeyBinding(evt, keys.defaultAction) &&
+      !(this._ctx.currentFocusedRenderable instanceof DialogButtonRenderable)
+    ) {
+      evt.preventDefault?.();
+      dialog.defaultAction();
+      return true;
     }
 
     return false;
   };
 
+  /** Container key bindings with the dialog's own merged over them. */
+  private getKeymap(dialog: InternalDialog): Required<DialogKeymap> {
+    const container = this._options.keys;
+    return {
+      close: dialog.keys?.close ?? container?.close ?? DEFAULT_KEYMAP.close,
+      defaultAction:
+        dialog.keys?.defaultAction ??
+        container?.defaultAction ??
+        DEFAULT_KEYMAP.defaultAction,
+      ctrlC: dialog.keys?.ctrlC ?? container?.ctrlC ?? DEFAULT_KEYMAP.ctrlC,
+    };
+  }
+
+  /** Scoped containers leave keys to the app while focus is outside their target. */
+  private ownsKeyboard(): boolean {
+    if (!this._target) return true;
+
+    const focused = this._ctx.currentFocusedRenderable;
+    return !focused || isDescendantOf(focused, this._target);
+  }
+
+  /** Size of the area dialogs are laid out in. */
+  private getBounds(): DialogDimensions {
+    // Scoped containers are sized by layout; use the target before the first pass
+    if (this._target) {
+      return {
+        width: this.width || this._target.width,
+        height: this.height || this._target.height,
+      };
+    }
+
+    return { width: this.width, height: this.height };
+  }
+
   private getTopDialogRenderable(): DialogRenderable | undefined {
     if (this._dialogRenderables.size === 0) {
       return undefined;
@@ -119,6 +228,20 @@ export class DialogContainerRenderable extends BoxRenderable {
     return topId !== undefined ? this._dialogRenderables.get(topId) : undefined;
   }
 
+  /**
+   * The dialog that handles Tab and Escape: the top-most modal dialog, or a
+   * non-modal dialog above it that has focus. Non-modal dialogs without
+   * focus leave the keyboard to the app.
+   */
+  private getKeyboardTarget(): DialogRenderable | undefined {
+    return [...this._dialogRenderables.values()]
+      .reverse()
+      .find(
+        (renderable) =>
+          isModalDialog(renderable.dialog) || renderable.containsFocus(),
+      );
+  }
+
   public getDialogRenderable(id: DialogId): DialogRenderable | undefined {
     return this._dialogRenderables.get(id);
   }
@@ -127,24 +250,69 @@ export class DialogContainerRenderable extends BoxRenderable {
     return this._dialogRenderables;
   }
 
+  /**
+   * Get every dialog renderable currently in the tree, including dialogs
+   * that are playing their exit transition.
+   */
+  public getMountedDialogRenderables(): DialogRenderable[] {
+    return [...this._dialogRenderables.values(), ...this._closingRenderables];
+  }
+
   private addOrUpdateDialog(dialog: InternalDialog): void {
     const existing = this._dialogRenderables.get(dialog.id);
 
     if (existing) {
-      // TODO: Support updating existing dialogs in-place
-      this.removeDialog(dialog.id);
+      const previousTop = this.getTopDialogRenderable();
+      const hadFocus = existing.containsFocus();
+
+      existing.update(dialog);
+      this.syncStacking();
+
+      // Rebuilt content or footer took the focused renderable with it
+      if (hadFocus && !existing.containsFocus()) {
+        this.scheduleFocus(() => existing.focusInitial());
+      }
+
+      // Raised above the previous top dialog
+      if (previousTop && previousTop !== existing) {
+        if (this.getTopDialogRenderable() === existing) {
+          previousTop.saveFocus();
+          existing.restoreFocus();
+        }
+      }
+
+      this.requestRender();
+      return;
+    }
+
+    // A dialog re-shown mid-exit replaces its closing renderable immediately
+    for (const closing of this._closingRenderables) {
+      if (closing.dialog.id === dialog.id) {
+        closing.cancelTransition();
+        this.finalizeRemoval(closing);
+      }
     }
 
     const dialogRenderable = new DialogRenderable(this.ctx, {
       dialog,
       containerOptions: this._options,
+      onCloseButton: () => this._manager.close(dialog.id, "close-button"),
+      onPointerDown: () => this._manager.raise(dialog.id),
+      bounds: this.getBounds(),
     });
 
+    this.getTopDialogRenderable()?.saveFocus();
+
     this._dialogRenderables.set(dialog.id, dialogRenderable);
     this.add(dialogRenderable);
 
-    this.updateBackdropVisibility();
-    this.updateBackdropStyle();
+    this.syncStacking();
+    this.updateVisibility();
+
+    dialogRenderable.enter();
+
+    // Framework content is mounted after this call, so defer until it exists
+    this.scheduleFocus(() => dialogRenderable.focusInitial());
 
     this.requestRender();
   }
@@ -152,30 +320,88 @@ export class DialogContainerRenderable extends BoxRenderable {
   private removeDialog(id: DialogId): void {
     const renderable = this._dialogRenderables.get(id);
     if (renderable) {
+      const wasTop = renderable === this.getTopDialogRenderable();
+
       this._dialogRenderables.delete(id);
-      this.remove(renderable.id);
-      renderable.destroyRecursively();
+      this._closingRenderables.add(renderable);
 
-      this.updateBackdropVisibility();
-      this.updateBackdropStyle();
+      this.removeBackdrop(renderable);
+      this.syncStacking();
+
+      // An explicit returnFocus is handled by the manager
+      const nextTop = this.getTopDialogRenderable();
+      if (wasTop && nextTop && renderable.dialog.returnFocus === undefined) {
+        this.scheduleFocus(() => nextTop.restoreFocus());
+      }
+
+      renderable.exit(() => this.finalizeRemoval(renderable));
 
       this.requestRender();
     }
   }
 
+  private finalizeRemoval(renderable: DialogRenderable): void {
+    if (!this._closingRenderables.delete(renderable)) return;
+
+    this.remove(renderable.id);
+    renderable.destroyRecursively();
+
+    this.updateVisibility();
+    this.emit(DialogContainerEvents.DIALOG_REMOVED, renderable.dialog.id);
+
+    this.requestRender();
+  }
+
+  private scheduleFocus(callback: () => void): void {
+    if (this._focusTimeout) {
+      clearTimeout(this._focusTimeout);
+    }
+
+    this._focusTimeout = setTimeout(() => {
+      this._focusTimeout = undefined;
+      if (!this._destroyed) {
+        callback();
+      }
+    }, 1);
+  }
+
+  /**
+   * Resize to the terminal. Scoped containers ignore this and follow the
+   * size of their target instead.
+   */
   public updateDimensions(width: number, height?: number): void {
+    if (this._target) return;
+
     const h = height ?? this._ctx.height;
 
     // Update container dimensions
     this.width = width;
     this.height = h;
 
-    // Update backdrop dimensions
-    this._backdrop.updateDimensions(width, h);
+    this.layoutDialogs(width, h);
+  }
+
+  protected override onResize(width: number, height: number): void {
+    super.onResize(width, height);
+
+    // Follow the target after this render pass, since requesting a render
+    // during it would be dropped
+    if (this._target) {
+      queueMicrotask(() => {
+        if (this._destroyed) return;
+        this.layoutDialogs(width, height);
+        this.requestRender();
+      });
+    }
+  }
+
+  private layoutDialogs(width: number, height: number): void {
+    for (const backdrop of this.getBackdrops()) {
+      backdrop.updateDimensions(width, height);
+    }
 
-    // Update dialog dimensions
-    for (const [, renderable] of this._dialogRenderables) {
-      renderable.updateDimensions(width, h);
+    for (const renderable of this.getMountedDialogRenderables()) {
+      renderable.updateDimensions(width, height);
     }
   }
 
@@ -187,7 +413,9 @@ export class DialogContainerRenderable extends BoxRenderable {
     this._options.dialogOptions = value;
   }
 
-  public set sizePresets(value: Partial<Record<DialogSize, number>>) {
+  public set sizePresets(value: Partial<
+    Record<DialogSize, number | DialogSizePreset>
+  >,) {
     this._options.sizePresets = value;
   }
 
@@ -195,37 +423,131 @@ export class DialogContainerRenderable extends BoxRenderable {
     this._options.closeOnEscape = value;
   }
 
+  public set keys(value: DialogKeymap) {
+    this._options.keys = value;
+  }
+
   public set closeOnClickOutside(value: boolean) {
     this._options.closeOnClickOutside = value;
   }
 
   public set backdropColor(value: string) {
     this._options.backdropColor = value;
-    this._backdrop.updateContainerOptions(this._options);
-    this.updateBackdropStyle();
+    for (const backdrop of this.getBackdrops()) {
+      backdrop.updateContainerOptions(this._options);
+    }
   }
 
-  public set backdropOpacity(value: number | string) {
+  public set backdropOpacity(value: DialogBackdropOpacity) {
     this._options.backdropOpacity = value;
-    this._backdrop.updateContainerOptions(this._options);
-    this.updateBackdropStyle();
+    for (const backdrop of this.getBackdrops()) {
+      backdrop.updateContainerOptions(this._options);
+    }
   }
 
-  private updateBackdropVisibility(): void {
-    const hasDialogs = this._dialogRenderables.size > 0;
-    this._backdrop.visible = hasDialogs;
-    this.visible = hasDialogs;
+  public set backdropMode(value: DialogBackdropMode) {
+    this._options.backdropMode = value;
+    for (const backdrop of this.getBackdrops()) {
+      backdrop.updateContainerOptions(this._options);
+    }
+  }
+
+  public set backdropDesaturate(value: number) {
+    this._options.backdropDesaturate = value;
+    for (const backdrop of this.getBackdrops()) {
+      backdrop.updateContainerOptions(this._options);
+    }
+  }
+
+  private getBackdrops(): BackdropRenderable[] {
+    return [...this._backdrops.values(), ...this._closingBackdrops];
+  }
+
+  private updateVisibility(): void {
+    // Stay visible while dialogs and backdrops finish their exit transition
+    this.visible =
+      this._dialogRenderables.size > 0 ||
+      this._closingRenderables.size > 0 ||
+      this.getBackdrops().length > 0;
+  }
+
+  /** Create and fade in the backdrop layer of a modal dialog. */
+  private getOrCreateBackdrop(
+    renderable: DialogRenderable,
+  ): BackdropRenderable {
+    const existing = this._backdrops.get(renderable);
+    if (existing) return existing;
+
+    const backdrop = new BackdropRenderable(this.ctx, {
+      id: `dialog-backdrop-${this._backdropCounter++}`,
+      containerOptions: this._options,
+      onClick: () => this.handleBackdropClick(renderable),
+    });
+    const bounds = this.getBounds();
+    backdrop.updateDimensions(bounds.width, bounds.height);
+    this._backdrops.set(renderable, backdrop);
+    this.add(backdrop);
+    backdrop.fadeIn(renderable.dialog);
+
+    return backdrop;
   }
 
-  private updateBackdropStyle(): void {
-    const topDialog = this.getTopDialogRenderable();
-    this._backdrop.updateStyle(topDialog?.dialog);
+  /** Fade out and remove the backdrop layer of a dialog, if it has one. */
+  private removeBackdrop(renderable: DialogRenderable): void {
+    const backdrop = this._backdrops.get(renderable);
+    if (!backdrop) return;
+
+    this._backdrops.delete(renderable);
+    this._closingBackdrops.add(backdrop);
+
+    backdrop.fadeOut(renderable.dialog, () => {
+      if (!this._closingBackdrops.delete(backdrop)) return;
+
+      this.remove(backdrop.id);
+      backdrop.destroyRecursively();
+      this.updateVisibility();
+      this.requestRender();
+    });
   }
 
-  private handleBackdropClick(): void {
-    const topDialog = this.getTopDialogRenderable();
-    if (!topDialog) return;
+  /**
+   * Layer dialogs in the manager's stack order. Every modal dialog gets a
+   * backdrop directly below it, so each one dims the dialogs underneath.
+   */
+  private syncStacking(): void {
+    const ordered = new Map<DialogId, DialogRenderable>();
+    for (const dialog of this._manager.getDialogs()) {
+      const renderable = this._dialogRenderables.get(dialog.id);
+      if (renderable) {
+        ordered.set(dialog.id, renderable);
+      }
+    }
+    for (const [id, renderable] of this._dialogRenderables) {
+      if (!ordered.has(id)) {
+        ordered.set(id, renderable);
+      }
+    }
+    this._dialogRenderables = ordered;
+
+    let zIndex = 0;
+    let level = 0;
+    for (const renderable of ordered.values()) {
+      zIndex += 2;
+      renderable.zIndex = zIndex;
+
+      if (isModalDialog(renderable.dialog)) {
+        const backdrop = this.getOrCreateBackdrop(renderable);
+        backdrop.zIndex = zIndex - 1;
+        backdrop.level = level++;
+        backdrop.updateStyle(renderable.dialog);
+      } else {
+        this.removeBackdrop(renderable);
+      }
+    }
+  }
 
+  /** Only the top-most backdrop can be clicked; it belongs to the dialog above it. */
+  private handleBackdropClick(topDialog: DialogRenderable): void {
     // Call per-dialog callback first
     topDialog.dialog.onBackdropClick?.();
 
@@ -234,7 +556,7 @@ export class DialogContainerRenderable extends BoxRenderable {
       topDialog.dialog.closeOnClickOutside ?? this._options.closeOnClickOutside;
 
     if (closeOnClickOutside === true) {
-      this._manager.close(topDialog.dialog.id);
+      this._manager.close(topDialog.dialog.id, "backdrop");
     }
   }
 
@@ -242,6 +564,27 @@ export class DialogContainerRenderable extends BoxRenderable {
     this._options.unstyled = value;
   }
 
+  public set transition(value: DialogTransitionPreset | DialogTransition) {
+    this._options.transition = value;
+  }
+
+  public set reducedMotion(value: boolean) {
+    this._options.reducedMotion = value;
+  }
+
+  /**
+   * Without a modal dialog there is no backdrop, so skip the container's
+   * full-screen hit area and keep the app underneath clickable.
+   */
+  public override render(buffer: OptimizedBuffer, deltaTime: number): void {
+    if (this.getBackdrops().length > 0) {
+      super.render(buffer, deltaTime);
+      return;
+    }
+
+    this.markClean();
+  }
+
   public override destroy(): void {
     if (this._destroyed) return;
     this._destroyed = true;
@@ -251,14 +594,24 @@ export class DialogContainerRenderable extends BoxRenderable {
 
     this._ctx.keyInput.off("keypress", this.handleKeyboard);
 
+    if (this._focusTimeout) {
+      clearTimeout(this._focusTimeout);
+      this._focusTimeout = undefined;
+    }
+
     // Clean up dialog renderables
-    for (const [, renderable] of this._dialogRenderables) {
+    for (const renderable of this.getMountedDialogRenderables()) {
       renderable.destroyRecursively();
     }
     this._dialogRenderables.clear();
+    this._closingRenderables.clear();
 
-    // Clean up backdrop
-    this._backdrop.destroyRecursively();
+    // Clean up backdrops
+    for (const backdrop of this.getBackdrops()) {
+      backdrop.destroyRecursively();
+    }
+    this._backdrops.clear();
+    this._closingBackdrops.clear();
 
     super.destroy();
   }
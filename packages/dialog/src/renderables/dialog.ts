@@ -1,46 +1,121 @@
-import { BoxRenderable, type RenderContext } from "@opentui/core";
-import { JSX_CONTENT_KEY } from "../constants";
-import type { DialogContainerOptions, InternalDialog } from "../types";
 import {
+  BoxRenderable,
+  MouseButton,
+  type MouseEvent,
+  type OptimizedBuffer,
+  parseColor,
+  type Renderable,
+  type RenderContext,
+  type RGBA,
+  TextAttributes,
+  TextRenderable,
+} from "@opentui/core";
+import {
+  CLOSE_BUTTON_GLYPH,
+  JSX_CONTENT_KEY,
+  JSX_FOOTER_KEY,
+  MIN_RESIZE_HEIGHT,
+  MIN_RESIZE_WIDTH,
+  RESIZE_HANDLE_GLYPH,
+  TRANSITION_SCALE_FROM,
+} from "../constants";
+import type {
+  DialogAnchor,
+  DialogContainerOptions,
+  DialogDimensions,
+  DialogPlacement,
+  DialogPosition,
+  InternalDialog,
+} from "../types";
+import {
+  animate,
   type ComputedDialogStyle,
   computeDialogStyle,
+  getDialogHeight,
   getDialogWidth,
+  getFocusableDescendants,
+  isDescendantOf,
+  resolveDimension,
+  resolveTransition,
 } from "../utils";
+import { DialogBodyRenderable } from "./dialog-body";
 
 export interface DialogRenderableOptions {
   dialog: InternalDialog;
   containerOptions: DialogContainerOptions;
+  /** Called when the header close button is clicked. */
+  onCloseButton?: () => void;
+  /** Called on mouse down anywhere inside the dialog. */
+  onPointerDown?: () => void;
+  /** Size of the area the dialog is laid out in. Defaults to the terminal size. */
+  bounds?: DialogDimensions;
+}
+
+/** A mouse drag in progress on a dialog's drag handle or resize corner. */
+interface PointerGesture {
+  kind: "move" | "resize";
+  startX: number;
+  startY: number;
+  origin: DialogPosition & DialogDimensions;
+  changed: boolean;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
 }
 
 export class DialogRenderable extends BoxRenderable {
   private _dialog: InternalDialog;
   private _computedStyle: ComputedDialogStyle;
   private _containerOptions: DialogContainerOptions;
+  private _contentRenderable: Renderable | null = null;
+  private _onCloseButton: (() => void) | undefined;
+  private _onPointerDown: (() => void) | undefined;
+  private _header: BoxRenderable | null = null;
+  private _body: DialogBodyRenderable;
+  private _footer: BoxRenderable | null = null;
+  private _titleRow: BoxRenderable | null = null;
+  private _closeButton: TextRenderable | null = null;
+  private _boundsWidth: number;
+  private _boundsHeight: number;
+  private _savedFocus: Renderable | null = null;
+  private _panelWidth: number;
+  /** Transition progress: 0 = fully hidden, 1 = fully shown. */
+  private _progress: number = 1;
+  private _cancelTransition: (() => void) | null = null;
+  /** Set once the user drags the dialog; overrides placement and sizing. */
+  private _userPosition: DialogPosition | null = null;
+  private _userSize: DialogDimensions | null = null;
+  private _gesture: PointerGesture | null = null;
+  private _resizeHandleColor: RGBA;
 
   constructor(ctx: RenderContext, options: DialogRenderableOptions) {
-    const { dialog, containerOptions } = options;
+    const { dialog, containerOptions, onCloseButton, onPointerDown } = options;
+    const { width: boundsWidth, height: boundsHeight } = options.bounds ?? {
+      width: ctx.width,
+      height: ctx.height,
+    };
     const isDeferred = dialog.deferred === true;
 
     const computedStyle = computeDialogStyle({ dialog, containerOptions });
     const dialogWidth = getDialogWidth(
       dialog.size,
       containerOptions,
-      ctx.width,
+      boundsWidth,
     );
     const padding = computedStyle.resolvedPadding;
 
     const panelWidth =
-      typeof computedStyle.width === "number"
-        ? computedStyle.width
-        : dialogWidth;
+      resolveDimension(computedStyle.width, boundsWidth) ?? dialogWidth;
 
     super(ctx, {
       id: `dialog-${dialog.id}`,
       position: "absolute",
       width: panelWidth,
-      maxWidth: computedStyle.maxWidth ?? ctx.width - 2,
-      minWidth: computedStyle.minWidth,
-      maxHeight: computedStyle.maxHeight,
+      maxWidth:
+        resolveDimension(computedStyle.maxWidth, boundsWidth) ??
+        boundsWidth - 2,
+      minWidth: resolveDimension(computedStyle.minWidth, boundsWidth),
       backgroundColor: computedStyle.backgroundColor,
       border: computedStyle.border,
       borderColor: computedStyle.borderColor,
@@ -55,6 +130,24 @@ export class DialogRenderable extends BoxRenderable {
     this._dialog = dialog;
     this._containerOptions = containerOptions;
     this._computedStyle = computedStyle;
+    this._boundsWidth = boundsWidth;
+    this._boundsHeight = boundsHeight;
+    this._panelWidth = panelWidth;
+    this._resizeHandleColor = parseColor(
+      computedStyle.borderColor ?? computedStyle.mutedColor ?? "#808080",
+    );
+    this._onCloseButton = onCloseButton;
+    this._onPointerDown = onPointerDown;
+    this.applyPlacement();
+
+    // Header and footer keep their natural height; the body takes what is
+    // left under maxHeight and scrolls the rest
+    this._body = new DialogBodyRenderable(ctx, {
+      id: `dialog-${dialog.id}-body`,
+    });
+    this.add(this._body);
+    this.createHeader();
+    this.createFooter();
 
     if (dialog?.[JSX_CONTENT_KEY]) {
       // Reconcilers take over rendering the tree from here
@@ -66,8 +159,12 @@ export class DialogRenderable extends BoxRenderable {
 
   private createContent(): void {
     try {
-      const contentRenderable = this._dialog.content(this.ctx);
-      this.add(contentRenderable);
+      const contentRenderable = this._dialog.content(
+        this.ctx,
+        this._computedStyle,
+      );
+      this._body.add(contentRenderable);
+      this._contentRenderable = contentRenderable;
     } catch (error) {
       const dialogId = this._dialog.id;
       const originalMessage =
@@ -91,23 +188,711 @@ export class DialogRenderable extends BoxRenderable {
     }
   }
 
-  public updateDimensions(width: number, _height?: number): void {
+  private destroyContent(): void {
+    if (!this._contentRenderable) return;
+
+    this._body.remove(this._contentRenderable.id);
+    this._contentRenderable.destroyRecursively();
+    this._contentRenderable = null;
+  }
+
+  /** Title, close button and description, above the body. */
+  private createHeader(): void {
+    const { id, title, description, showCloseButton, draggable } = this._dialog;
+    if (!title && !description && !showCloseButton) return;
+
+    const style = this._computedStyle;
+    const header = new BoxRenderable(this.ctx, {
+      id: `dialog-${id}-header`,
+      flexDirection: "column",
+      flexShrink: 0,
+      marginBottom: 1,
+    });
+
+    if (title || showCloseButton) {
+      const titleRow = new BoxRenderable(this.ctx, {
+        flexDirection: "row",
+        gap: 1,
+      });
+
+      if (title) {
+        titleRow.add(
+          new TextRenderable(this.ctx, {
+            id: `dialog-${id}-title`,
+            content: title,
+            fg: style.textColor,
+            attributes: TextAttributes.BOLD,
+            flexShrink: 1,
+            // The title row is a drag handle; don't start a text selection
+            selectable: !draggable,
+          }),
+        );
+      }
+
+      if (showCloseButton) {
+        this._closeButton = new TextRenderable(this.ctx, {
+          id: `dialog-${id}-close-button`,
+          content: CLOSE_BUTTON_GLYPH,
+          fg: style.mutedColor,
+          marginLeft: "auto",
+          flexShrink: 0,
+          onMouseUp: () => this._onCloseButton?.(),
+        });
+        titleRow.add(this._closeButton);
+      }
+
+      header.add(titleRow);
+      this._titleRow = titleRow;
+    }
+
+    if (description) {
+      header.add(
+        new TextRenderable(this.ctx, {
+          id: `dialog-${id}-description`,
+          content: description,
+          fg: style.mutedColor,
+          wrapMode: "word",
+        }),
+      );
+    }
+
+    this.insertBefore(header, this._body);
+    this._header = header;
+  }
+
+  private destroyHeader(): void {
+    if (!this._header) return;
+
+    this.remove(this._header.id);
+    this._header.destroyRecursively();
+    this._header = null;
+    this._titleRow = null;
+    this._closeButton = null;
+  }
+
+  /**
+   * Region pinned below the body. JSX footers get an empty region for the
+   * reconciler to portal into.
+   */
+  private createFooter(): void {
+    const { id, footer } = this._dialog;
+    const hasJsxFooter = Boolean(this._dialog[JSX_FOOTER_KEY]);
+    if (!footer && !hasJsxFooter) return;
+
+    const region = new BoxRenderable(this.ctx, {
+      id: `dialog-${id}-footer`,
+      flexDirection: "column",
+      flexShrink: 0,
+      marginTop: 1,
+    });
+
+    if (footer && !hasJsxFooter) {
+      region.add(footer(this.ctx, this._computedStyle));
+    }
+
+    this.add(region);
+    this._footer = region;
+  }
+
+  private destroyFooter(): void {
+    if (!this._footer) return;
+
+    this.remove(this._footer.id);
+    this._footer.destroyRecursively();
+    this._footer = null;
+  }
+
+  /**
+   * Patch this renderable to match an updated dialog without remounting it.
+   *
+   * Style, size and padding are re-applied in place. Core content is only
+   * rebuilt when the `content` factory reference changes, so callers that
+   * re-show a dialog with a stable factory keep child state, scroll position
+   * and focus. The same holds for `footer`. The header is only rebuilt when
+   * its text, buttons or colors change. JSX content is left to the reconciler.
+   */
+  public update(dialog: InternalDialog): void {
+    const previous = this._dialog;
+    const previousStyle = this._computedStyle;
+    this._dialog = dialog;
+
+    this.applyStyle();
+
+    const hasJsxContent = Boolean(dialog[JSX_CONTENT_KEY]);
+    if (!hasJsxContent && dialog.content !== previous.content) {
+      this.destroyContent();
+      this.createContent();
+    } else if (hasJsxContent && this._contentRenderable) {
+      // Switched from core content to JSX content
+      this.destroyContent();
+    }
+
+    if (this.headerChanged(previous, previousStyle)) {
+      this.destroyHeader();
+      this.createHeader();
+    }
+
+    const hasJsxFooter = Boolean(dialog[JSX_FOOTER_KEY]);
+    const hadJsxFooter = Boolean(previous[JSX_FOOTER_KEY]);
+    if (
+      hasJsxFooter !== hadJsxFooter ||
+      (!hasJsxFooter && dialog.footer !== previous.footer)
+    ) {
+      this.destroyFooter();
+      this.createFooter();
+    }
+
+    this.requestRender();
+  }
+
+  private headerChanged(
+    previous: InternalDialog,
+    previousStyle: ComputedDialogStyle,
+  ): boolean {
+    const dialog = this._dialog;
+    const style = this._computedStyle;
+    return (
+      dialog.title !== previous.title ||
+      dialog.description !== previous.description ||
+      dialog.showCloseButton !== previous.showCloseButton ||
+      dialog.draggable !== previous.draggable ||
+      style.textColor !== previousStyle.textColor ||
+      style.mutedColor !== previousStyle.mutedColor
+    );
+  }
+
+  private applyStyle(): void {
+    const computedStyle = computeDialogStyle({
+      dialog: this._dialog,
+      containerOptions: this._containerOptions,
+    });
+    const padding = computedStyle.resolvedPadding;
+
+    this._computedStyle = computedStyle;
+    this._resizeHandleColor = parseColor(
+      computedStyle.borderColor ?? computedStyle.mutedColor ?? "#808080",
+    );
+
+    this.backgroundColor = computedStyle.backgroundColor;
+    // Fall back to the box defaults, as if the dialog were created anew.
+    // Setting these turns the border on, so `border` goes last.
+    this.borderColor =
+      computedStyle.borderColor ?? this._defaultOptions.borderColor;
+    this.borderStyle =
+      computedStyle.borderStyle ?? this._defaultOptions.borderStyle;
+    this.border = computedStyle.border ?? false;
+    this.paddingTop = padding.top;
+    this.paddingRight = padding.right;
+    this.paddingBottom = padding.bottom;
+    this.paddingLeft = padding.left;
+
+    this.updateDimensions(this._boundsWidth);
+  }
+
+  /** Play the enter transition. */
+  public enter(): void {
+    this.runTransition(0, 1);
+  }
+
+  /** Play the exit transition, then call `onComplete`. */
+  public exit(onComplete: () => void): void {
+    this.runTransition(this._progress, 0, onComplete);
+  }
+
+  /** Stop any running transition, leaving the dialog in its current frame. */
+  public cancelTransition(): void {
+    this._cancelTransition?.();
+    this._cancelTransition = null;
+  }
+
+  private runTransition(from: number, to: number, onComplete?: () => void) {
+    this.cancelTransition();
+
+    const { duration, easing } = resolveTransition(
+      this._dialog,
+      this._containerOptions,
+    );
+
+    this._cancelTransition = animate({
+      from,
+      to,
+      duration,
+      easing,
+      onUpdate: (progress) => {
+        this._progress = progress;
+        this.applyTransitionFrame();
+      },
+      onComplete: () => {
+        this._cancelTransition = null;
+        onComplete?.();
+      },
+    });
+  }
+
+  private applyTransitionFrame(): void {
+    if (this.isDestroyed) return;
+
+    const { preset } = resolveTransition(this._dialog, this._containerOptions);
+    const progress = this._progress;
+    const remaining = 1 - progress;
+
+    this.opacity = preset === "none" ? 1 : progress;
+    this.translateX = 0;
+    this.translateY = 0;
+    this.width = this._panelWidth;
+
+    switch (preset) {
+      case "slide-top":
+        this.translateY = -Math.round(remaining * (this._boundsHeight / 2));
+        break;
+      case "slide-bottom":
+        this.translateY = Math.round(remaining * (this._boundsHeight / 2));
+        break;
+      case "slide-left":
+        this.translateX = -Math.round(remaining * (this._boundsWidth / 2));
+        break;
+      case "slide-right":
+        this.translateX = Math.round(remaining * (this._boundsWidth / 2));
+        break;
+      case "scale":
+        this.width = Math.max(
+          1,
+          Math.round(
+            this._panelWidth *
+              (TRANSITION_SCALE_FROM + (1 - TRANSITION_SCALE_FROM) * progress),
+          ),
+        );
+        break;
+    }
+
+    this.requestRender();
+  }
+
+  public updateDimensions(width: number, height?: number): void {
+    this._boundsWidth = width;
+    this._boundsHeight = height ?? this._boundsHeight;
+
+    const style = this._computedStyle;
     const dialogWidth = getDialogWidth(
       this._dialog.size,
       this._containerOptions,
       width,
     );
-    const panelWidth =
-      typeof this._computedStyle.width === "number"
-        ? this._computedStyle.width
-        : dialogWidth;
 
-    this.width = panelWidth;
-    this.maxWidth = this._computedStyle.maxWidth ?? width - 2;
-    this.requestRender();
+    if (this._userSize) {
+      // A size picked with the mouse wins over the style, within the terminal
+      this.clampUserLayout();
+      this._panelWidth = this._userSize.width;
+      this.minWidth = undefined;
+      this.maxWidth = undefined;
+    } else {
+      this._panelWidth = resolveDimension(style.width, width) ?? dialogWidth;
+      this.minWidth = resolveDimension(style.minWidth, width);
+      this.maxWidth = resolveDimension(style.maxWidth, width) ?? width - 2;
+    }
+    this.applyPlacement();
+    this.applyTransitionFrame();
+  }
+
+  /**
+   * Position the dialog inside the container. Centered dialogs rely on the
+   * container's flex alignment; every other placement sets explicit insets.
+   * Once the user has dragged the dialog, its position is used instead.
+   */
+  private applyPlacement(): void {
+    const { placement = "center", anchor } = this._dialog;
+    const isDrawer = !anchor && (placement === "left" || placement === "right");
+
+    if (this._userPosition) {
+      this.clampUserLayout();
+      this.top = this._userPosition.y;
+      this.right = undefined;
+      this.bottom = undefined;
+      this.left = this._userPosition.x;
+      this.applyHeight(isDrawer);
+      return;
+    }
+
+    let top: number | undefined;
+    let right: number | undefined;
+    let bottom: number | undefined;
+    let left: number | undefined;
+
+    if (anchor) {
+      ({ top, left } = this.getAnchoredPosition(anchor, placement));
+    } else if (placement === "top") {
+      top = 0;
+    } else if (placement === "bottom") {
+      bottom = 0;
+    } else if (placement === "left") {
+      top = 0;
+      left = 0;
+    } else if (placement === "right") {
+      top = 0;
+      right = 0;
+    }
+
+    this.top = top;
+    this.right = right;
+    this.bottom = bottom;
+    this.left = left;
+
+    this.applyHeight(isDrawer);
+  }
+
+  /**
+   * Size the dialog vertically. Without an explicit height it follows the
+   * content, capped to the terminal so small terminals scroll the body
+   * instead of overflowing.
+   */
+  private applyHeight(isDrawer: boolean): void {
+    const boundsHeight = this._boundsHeight;
+
+    if (this._userSize) {
+      this.height = this._userSize.height;
+      this.minHeight = undefined;
+      this.maxHeight = undefined;
+      return;
+    }
+
+    // Drawers span the full height regardless of the style
+    if (isDrawer) {
+      this.height = boundsHeight;
+      this.minHeight = undefined;
+      this.maxHeight = undefined;
+      return;
+    }
+
+    const style = this._computedStyle;
+    this.height =
+      resolveDimension(style.height, boundsHeight) ??
+      getDialogHeight(
+        this._dialog.size,
+        this._containerOptions,
+        boundsHeight,
+      ) ??
+      "auto";
+    this.minHeight = resolveDimension(style.minHeight, boundsHeight);
+    this.maxHeight =
+      resolveDimension(style.maxHeight, boundsHeight) ??
+      Math.max(1, boundsHeight - 2);
+  }
+
+  private getAnchoredPosition(
+    anchor: DialogAnchor,
+    placement: DialogPlacement,
+  ): { top: number; left: number } {
+    const anchorWidth = anchor.width ?? 0;
+    const anchorHeight = anchor.height ?? 0;
+    // Anchors are in screen coordinates, insets relative to the container
+    const origin = this.getContainerOrigin();
+    const anchorX = anchor.x - origin.x;
+    const anchorY = anchor.y - origin.y;
+    // Before the first layout pass the height is unknown and flipping is skipped
+    const width = this.width || this._panelWidth;
+    const height = this.height;
+    const maxLeft = Math.max(0, this._boundsWidth - width);
+    const maxTop = Math.max(0, this._boundsHeight - height);
+
+    let top = anchorY + anchorHeight;
+    let left = anchorX;
+
+    if (placement === "top") {
+      top = anchorY - height;
+      if (top < 0) top = anchorY + anchorHeight;
+    } else if (placement === "left" || placement === "right") {
+      top = anchorY;
+      left = placement === "left" ? anchorX - width : anchorX + anchorWidth;
+      if (left < 0) left = anchorX + anchorWidth;
+      else if (left > maxLeft) left = anchorX - width;
+    } else if (top > maxTop && anchorY - height >= 0) {
+      top = anchorY - height;
+    }
+
+    return {
+      top: Math.min(Math.max(0, top), maxTop),
+      left: Math.min(Math.max(0, left), maxLeft),
+    };
+  }
+
+  protected override onResize(width: number, height: number): void {
+    super.onResize(width, height);
+
+    // Anchored and dragged positions depend on the measured size; re-place
+    // after this render pass since requesting a render during it would be
+    // dropped
+    if (this._dialog.anchor || this._userPosition) {
+      queueMicrotask(() => {
+        if (this.isDestroyed) return;
+        this.applyPlacement();
+        this.requestRender();
+      });
+    }
+  }
+
+  protected override onMouseEvent(event: MouseEvent): void {
+    // Mouse events bubble up from the content. Once a drag starts the
+    // renderer captures the renderable under the pointer, so drag events
+    // reach the dialog the same way.
+    switch (event.type) {
+      case "down":
+        // Hit-test before raising: a raise re-shows the dialog, which may
+        // replace the renderable under the pointer
+        if (event.button === MouseButton.LEFT) {
+          this.beginGesture(event);
+        }
+        this._onPointerDown?.();
+        break;
+      case "drag":
+        if (this._gesture) {
+          this.updateGesture(event);
+          event.stopPropagation();
+        }
+        break;
+      case "drag-end":
+      case "up":
+        this.endGesture();
+        break;
+    }
+  }
+
+  private beginGesture(event: MouseEvent): void {
+    const { draggable, resizable } = this._dialog;
+    const localX = event.x - this.x;
+    const localY = event.y - this.y;
+    const onRight = localX === this.width - 1;
+    const onBottom = localY === this.height - 1;
+
+    let kind: PointerGesture["kind"];
+    if (resizable && onRight && onBottom) {
+      kind = "resize";
+    } else if (draggable && this.isDragHandle(event, localX, localY)) {
+      kind = "move";
+    } else {
+      return;
+    }
+
+    const containerOrigin = this.getContainerOrigin();
+    this._gesture = {
+      kind,
+      startX: event.x,
+      startY: event.y,
+      origin: {
+        x: this.x - containerOrigin.x,
+        y: this.y - containerOrigin.y,
+        width: this.width,
+        height: this.height,
+      },
+      changed: false,
+    };
+  }
+
+  /** The top row, the border and the title row (minus the close button). */
+  private isDragHandle(
+    event: MouseEvent,
+    localX: number,
+    localY: number,
+  ): boolean {
+    if (localY === 0) return true;
+
+    const onEdge =
+      localX === 0 || localX === this.width - 1 || localY === this.height - 1;
+    if (this.border && onEdge) return true;
+
+    if (!this._titleRow || !isDescendantOf(event.target, this._titleRow)) {
+      return false;
+    }
+    return !this._closeButton || event.target !== this._closeButton;
+  }
+
+  private updateGesture(event: MouseEvent): void {
+    const gesture = this._gesture;
+    if (!gesture) return;
+
+    const { origin } = gesture;
+    const dx = event.x - gesture.startX;
+    const dy = event.y - gesture.startY;
+
+    if (gesture.kind === "move") {
+      this._userPosition = { x: origin.x + dx, y: origin.y + dy };
+    } else {
+      // Pin the top-left corner so the bottom-right one follows the pointer
+      this._userPosition ??= { x: origin.x, y: origin.y };
+      this._userSize = {
+        width: Math.min(
+          origin.width + dx,
+          this._boundsWidth - this._userPosition.x,
+        ),
+        height: Math.min(
+          origin.height + dy,
+          this._boundsHeight - this._userPosition.y,
+        ),
+      };
+    }
+
+    gesture.changed = true;
+    this.updateDimensions(this._boundsWidth);
+  }
+
+  private endGesture(): void {
+    const gesture = this._gesture;
+    this._gesture = null;
+    if (!gesture?.changed) return;
+
+    if (gesture.kind === "move" && this._userPosition) {
+      // Report screen coordinates, which `anchor` accepts to restore it
+      const origin = this.getContainerOrigin();
+      this._dialog.onMove?.({
+        x: this._userPosition.x + origin.x,
+        y: this._userPosition.y + origin.y,
+      });
+    } else if (gesture.kind === "resize" && this._userSize) {
+      this._dialog.onResize?.({ ...this._userSize });
+    }
+  }
+
+  /** Screen position of the container the dialog's insets are relative to. */
+  private getContainerOrigin(): DialogPosition {
+    return { x: this.parent?.x ?? 0, y: this.parent?.y ?? 0 };
+  }
+
+  /** Keep the dragged size and position inside the bounds. */
+  private clampUserLayout(): void {
+    const boundsWidth = this._boundsWidth;
+    const boundsHeight = this._boundsHeight;
+
+    if (this._userSize) {
+      this._userSize = {
+        width: clamp(
+          this._userSize.width,
+          Math.min(MIN_RESIZE_WIDTH, boundsWidth),
+          boundsWidth,
+        ),
+        height: clamp(
+          this._userSize.height,
+          Math.min(MIN_RESIZE_HEIGHT, boundsHeight),
+          boundsHeight,
+        ),
+      };
+    }
+
+    if (this._userPosition) {
+      const width = this._userSize?.width ?? (this.width || this._panelWidth);
+      const height = this._userSize?.height ?? this.height;
+      this._userPosition = {
+        x: clamp(this._userPosition.x, 0, Math.max(0, boundsWidth - width)),
+        y: clamp(this._userPosition.y, 0, Math.max(0, boundsHeight - height)),
+      };
+    }
+  }
+
+  protected override renderSelf(buffer: OptimizedBuffer): void {
+    super.renderSelf(buffer);
+
+    if (this._dialog.resizable && this.width > 0 && this.height > 0) {
+      buffer.drawText(
+        RESIZE_HANDLE_GLYPH,
+        this.x + this.width - 1,
+        this.y + this.height - 1,
+        this._resizeHandleColor,
+      );
+    }
+  }
+
+  /** Whether the currently focused renderable lives inside this dialog. */
+  public containsFocus(): boolean {
+    return isDescendantOf(this.ctx.currentFocusedRenderable, this);
+  }
+
+  /**
+   * Move focus into the dialog according to `initialFocus`.
+   * Does nothing if the content already focused one of its own renderables.
+   */
+  public focusInitial(): void {
+    const { initialFocus } = this._dialog;
+    if (initialFocus === false || this.isDestroyed || this.containsFocus()) {
+      return;
+    }
+
+    let target: Renderable | null | undefined;
+    if (typeof initialFocus === "string") {
+      target = this.findDescendantById(initialFocus);
+    } else if (typeof initialFocus === "function") {
+      target = initialFocus(this);
+    }
+
+    this.focusAndReveal(target ?? getFocusableDescendants(this)[0]);
+  }
+
+  /**
+   * Cycle focus through the focusable descendants, wrapping at either end.
+   * Returns false when the dialog has nothing to focus.
+   */
+  public cycleFocus(backwards: boolean = false): boolean {
+    const focusables = getFocusableDescendants(this);
+    if (focusables.length === 0) {
+      return false;
+    }
+
+    const current = this.ctx.currentFocusedRenderable;
+    const index = current ? focusables.indexOf(current) : -1;
+    const step = backwards ? -1 : 1;
+    const nextIndex =
+      index === -1
+        ? backwards
+          ? focusables.length - 1
+          : 0
+        : (index + step + focusables.length) % focusables.length;
+
+    this.focusAndReveal(focusables[nextIndex]);
+    return true;
+  }
+
+  /** Focus `target` and scroll the body so it is visible. */
+  private focusAndReveal(target: Renderable | null | undefined): void {
+    if (!target) return;
+
+    target.focus();
+    if (isDescendantOf(target, this._body)) {
+      this._body.scrollChildIntoView(target);
+    }
+  }
+
+  /** Remember and blur the focused descendant while another dialog is stacked on top. */
+  public saveFocus(): void {
+    const focused = this.ctx.currentFocusedRenderable;
+    this._savedFocus = focused && this.containsFocus() ? focused : null;
+    this._savedFocus?.blur();
+  }
+
+  /** Refocus the descendant remembered by `saveFocus()`, if it still exists. */
+  public restoreFocus(): void {
+    const saved = this._savedFocus;
+    this._savedFocus = null;
+
+    if (saved && !saved.isDestroyed && isDescendantOf(saved, this)) {
+      saved.focus();
+    } else {
+      this.focusInitial();
+    }
+  }
+
+  public override destroy(): void {
+    this.cancelTransition();
+    super.destroy();
   }
 
   public get dialog(): InternalDialog {
     return this._dialog;
   }
+
+  /** Scrollable region holding the content. JSX content is portaled here. */
+  public get body(): DialogBodyRenderable {
+    return this._body;
+  }
+
+  /** Region below the body, or `null` when the dialog has no footer. */
+  public get footer(): BoxRenderable | null {
+    return this._footer;
+  }
 }
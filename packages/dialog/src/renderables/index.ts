@@ -4,6 +4,11 @@ export {
 } from "./backdrop";
 export { DialogRenderable, type DialogRenderableOptions } from "./dialog";
 export {
+  DialogBodyRenderable,
+  type DialogBodyRenderableOptions,
+} from "./dialog-body";
+export {
+  DialogContainerEvents,
   DialogContainerRenderable,
   type DialogContainerRenderableOptions,
   type DialogKeyboardEvent,
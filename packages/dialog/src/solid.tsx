@@ -6,8 +6,12 @@ import {
   type RenderContext,
 } from "@opentui/core";
 import {
+  type BoxProps,
   createComponent,
+  createElement,
+  insert,
   Portal,
+  spread,
   useKeyboard,
   useRenderer,
   useTerminalDimensions,
@@ -24,7 +28,7 @@ import {
   type ParentProps,
   useContext,
 } from "solid-js";
-import { JSX_CONTENT_KEY } from "./constants";
+import { JSX_CONTENT_KEY, JSX_FOOTER_KEY } from "./constants";
 import { DialogManager } from "./manager";
 import type {
   AlertContext,
@@ -32,46 +36,88 @@ import type {
   ConfirmContext,
   DialogState,
   PromptContext,
+  WizardContext,
 } from "./prompts";
-import { DialogContainerRenderable } from "./renderables";
+import {
+  DialogContainerEvents,
+  DialogContainerRenderable,
+} from "./renderables";
 import type {
   BaseAlertOptions,
   BaseChoiceOptions,
   BaseConfirmOptions,
   BaseDialogActions,
+  BaseInputOptions,
   BasePromptOptions,
+  BaseSelectOptions,
+  BaseWizardOptions,
+  BaseWizardStep,
   Dialog,
+  DialogCloseReason,
   DialogContainerOptions,
+  DialogEventListener,
+  DialogEventName,
   DialogId,
+  DialogKeyHandlers,
+  DialogManagerOptions,
+  DialogOpenOptions,
   DialogShowOptions,
-  DialogToClose,
   InternalDialog,
   InternalDialogShowOptions,
+  SerializedDialogState,
 } from "./types";
+import {
+  activateDialogManager,
+  createDialogScopeRegistry,
+  createMissingScopeError,
+  type DialogScopeRegistry,
+  dispatchKeyBindings,
+  getActiveDialogManager,
+} from "./utils";
 
 /** Function returning JSX. Required because Solid JSX is eagerly evaluated. */
 export type ContentAccessor = () => JSX.Element;
 
 interface DialogWithJsx extends InternalDialog {
   [JSX_CONTENT_KEY]?: ContentAccessor;
+  [JSX_FOOTER_KEY]?: ContentAccessor;
 }
 
 /** Internal type for show options that include JSX bridging keys */
 interface DialogShowOptionsWithJsx extends InternalDialogShowOptions {
   [JSX_CONTENT_KEY]?: ContentAccessor;
+  [JSX_FOOTER_KEY]?: ContentAccessor;
 }
 
+/** Dialog region a portal renders into: the body or the footer. */
+type PortalSlot = typeof JSX_CONTENT_KEY | typeof JSX_FOOTER_KEY;
+
+const PORTAL_SLOTS: readonly PortalSlot[] = [JSX_CONTENT_KEY, JSX_FOOTER_KEY];
+
 interface PortalItem {
   id: string | number;
+  slot: PortalSlot;
   contentAccessor: ContentAccessor;
   mount: BoxRenderable;
 }
 
-export interface ShowOptions extends Omit<DialogShowOptions, "content"> {
+export interface ShowOptions
+  extends Omit<DialogShowOptions, "content" | "footer"> {
   /** Must be a function returning JSX: `() => <text>Hi</text>` */
   content: ContentAccessor;
+  /** Pinned below the body. Must be a function returning JSX. */
+  footer?: ContentAccessor;
 }
 
+/**
+ * Show options of a registered dialog component, or a function that builds
+ * them from the props it is opened with.
+ * @template P The component's props.
+ */
+export type DialogComponentOptions<P> =
+  | Omit<ShowOptions, "content">
+  | ((props: P) => Omit<ShowOptions, "content">);
+
 // ============================================================================
 // Solid Prompt Types
 // ============================================================================
@@ -89,29 +135,74 @@ type AlertContent = (ctx: AlertContext) => ContentAccessor;
 /** Content factory for choice dialogs. */
 type ChoiceContent<K> = (ctx: ChoiceContext<K>) => ContentAccessor;
 
+/** Content factory for wizard steps. */
+type WizardContent<T> = (ctx: WizardContext<T>) => ContentAccessor;
+
+/** JSX `footer` of the async dialog options, like `ShowOptions.footer`. */
+interface AsyncFooterOptions {
+  /** Pinned below the body. Must be a function returning JSX. */
+  footer?: ContentAccessor;
+}
+
 /**
  * Options for a generic prompt dialog.
  * @template T The type of value the prompt resolves to.
  */
 export interface PromptOptions<T>
-  extends BasePromptOptions<T, PromptContent<T>> {}
+  extends Omit<BasePromptOptions<T, PromptContent<T>>, "footer">,
+    AsyncFooterOptions {}
 
 /**
  * Options for a confirm dialog.
  */
-export interface ConfirmOptions extends BaseConfirmOptions<ConfirmContent> {}
+export interface ConfirmOptions
+  extends Omit<BaseConfirmOptions<ConfirmContent>, "footer">,
+    AsyncFooterOptions {}
+
+/**
+ * Options for an input dialog.
+ * Omit `content` to use the built-in text input.
+ */
+export interface InputOptions
+  extends Omit<BaseInputOptions<PromptContent<string>>, "footer">,
+    AsyncFooterOptions {}
+
+/**
+ * Options for a select dialog.
+ * Omit `content` to use the built-in option list.
+ * @template K The type of the option values.
+ */
+export interface SelectOptions<K>
+  extends Omit<BaseSelectOptions<ChoiceContent<K>, K>, "footer">,
+    AsyncFooterOptions {}
 
 /**
  * Options for an alert dialog.
  */
-export interface AlertOptions extends BaseAlertOptions<AlertContent> {}
+export interface AlertOptions
+  extends Omit<BaseAlertOptions<AlertContent>, "footer">,
+    AsyncFooterOptions {}
 
 /**
  * Options for a choice dialog.
  * @template K The type of keys for the available choices.
  */
 export interface ChoiceOptions<K>
-  extends BaseChoiceOptions<ChoiceContent<K>, K> {}
+  extends Omit<BaseChoiceOptions<ChoiceContent<K>, K>, "footer">,
+    AsyncFooterOptions {}
+
+/**
+ * A wizard step.
+ * @template T The combined data of all steps.
+ */
+export interface WizardStep<T> extends BaseWizardStep<T, WizardContent<T>> {}
+
+/**
+ * Options for a wizard dialog.
+ * @template T The combined data of all steps.
+ */
+export interface WizardOptions<T>
+  extends BaseWizardOptions<T, WizardContent<T>> {}
 
 /**
  * Dialog actions for showing, closing, and managing dialogs.
@@ -126,15 +217,43 @@ export interface DialogActions extends BaseDialogActions<ShowOptions> {
   alert: (options: AlertOptions) => Promise<void>;
   /** Show a choice dialog and wait for the user to select an option. */
   choice: <K>(options: ChoiceOptions<K>) => Promise<K | undefined>;
+  /** Show a text input dialog and wait for the user to submit or cancel. */
+  input: (options: InputOptions) => Promise<string | undefined>;
+  /** Show a list of options and wait for the user to pick one. */
+  select: <K>(options: SelectOptions<K>) => Promise<K | undefined>;
+  /** Show a multi-step wizard and wait for it to finish. */
+  wizard: <T>(options: WizardOptions<T>) => Promise<T | undefined>;
+  /**
+   * Register a component under a name for `open()` and `restore()`.
+   * Returns a function that unregisters it.
+   */
+  register: <P extends object>(
+    type: string,
+    component: (props: P) => JSX.Element,
+    options?: DialogComponentOptions<P>,
+  ) => () => void;
 }
 
 interface DialogContextValue {
   manager: DialogManager;
   dialogs: Accessor<readonly Dialog[]>;
+  queue: Accessor<readonly Dialog[]>;
 }
 
 const DialogContext = createContext<DialogContextValue>();
 
+/** Named DialogScopes under the nearest DialogProvider. */
+const DialogScopesContext =
+  createContext<DialogScopeRegistry<DialogContextValue>>();
+
+const EMPTY_STATE: DialogState = {
+  isOpen: false,
+  dialogs: [],
+  topDialog: undefined,
+  count: 0,
+  queue: [],
+};
+
 const createPlaceholderContent = () => (ctx: RenderContext) =>
   new BoxRenderable(ctx, { id: "~jsx-placeholder" });
 
@@ -175,6 +294,24 @@ function buildShowOptions(
   } as DialogShowOptionsWithJsx;
 }
 
+/** Bridge a JSX footer to the dialog's footer region. */
+function buildFooterOptions(
+  footer: ContentAccessor | undefined,
+): Pick<DialogShowOptionsWithJsx, typeof JSX_FOOTER_KEY> {
+  if (footer === undefined) return {};
+
+  validateContentAccessor(footer);
+  return { [JSX_FOOTER_KEY]: footer };
+}
+
+/** Bridge the JSX footer of async dialog options, keeping the rest. */
+function bridgeAsyncFooter<T extends AsyncFooterOptions>({
+  footer,
+  ...rest
+}: T) {
+  return { ...rest, ...buildFooterOptions(footer) };
+}
+
 function validateContentAccessor(
   content: unknown,
 ): asserts content is ContentAccessor {
@@ -232,23 +369,78 @@ function useDialogContext(): DialogContextValue {
  *
  * // Close all dialogs
  * dialog.closeAll();
+ *
+ * // Show a dialog in the DialogScope named "pane-left"
+ * useDialog("pane-left").show({ content: () => <text>Hello</text> });
  * ```
  */
-export function useDialog(): DialogActions {
+export function useDialog(scope?: string): DialogActions {
   const { manager } = useDialogContext();
+  const scopes = useContext(DialogScopesContext);
+
+  // Named scopes are looked up on every call, so they may mount later
+  return createDialogActions(() => {
+    if (scope === undefined) return manager;
+
+    const scoped = scopes?.get(scope);
+    if (!scoped) throw createMissingScopeError(scope);
+    return scoped.manager;
+  });
+}
 
+/** Build the actions of `useDialog()` around a lazily resolved manager. */
+function createDialogActions(getManager: () => DialogManager): DialogActions {
   return {
     show: (options: ShowOptions) => {
-      const { content, ...rest } = options;
-      return manager.show(buildShowOptions(content, rest));
+      const { content, footer, ...rest } = options;
+      return getManager().show({
+        ...buildShowOptions(content, rest),
+        ...buildFooterOptions(footer),
+      });
     },
 
-    close: (id?: DialogId) => manager.close(id),
-    closeAll: () => manager.closeAll(),
+    close: (id?: DialogId, reason?: DialogCloseReason) =>
+      getManager().close(id, reason),
+    closeAll: () => getManager().closeAll(),
+
+    open: <P,>(type: string, props: P, options?: DialogOpenOptions) =>
+      getManager().open(type, props, options),
+
+    register: <P extends object>(
+      type: string,
+      Component: (props: P) => JSX.Element,
+      options?: DialogComponentOptions<P>,
+    ) =>
+      getManager().register<P>(type, (props) => {
+        const { footer, ...rest } =
+          typeof options === "function" ? options(props) : (options ?? {});
+        return {
+          ...buildShowOptions(
+            () =>
+              createComponent(
+                Component as (props: Record<string, unknown>) => JSX.Element,
+                props as Record<string, unknown>,
+              ),
+            rest,
+          ),
+          ...buildFooterOptions(footer),
+        };
+      }),
+
+    serialize: () => getManager().serialize(),
+    restore: (state: SerializedDialogState) => getManager().restore(state),
+
+    on: <K extends DialogEventName>(
+      event: K,
+      listener: DialogEventListener<K>,
+    ) => getManager().on(event, listener),
 
     replace: (options: ShowOptions) => {
-      const { content, ...rest } = options;
-      return manager.replace(buildShowOptions(content, rest));
+      const { content, footer, ...rest } = options;
+      return getManager().replace({
+        ...buildShowOptions(content, rest),
+        ...buildFooterOptions(footer),
+      });
     },
 
     // =====================================================================
@@ -256,41 +448,93 @@ export function useDialog(): DialogActions {
     // =====================================================================
 
     prompt: <T,>(options: PromptOptions<T>): Promise<T | undefined> => {
-      const { content, fallback, ...rest } = options;
-      return manager.prompt<T>((ctx) => ({
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      return getManager().prompt<T>((ctx) => ({
         ...buildShowOptions(content, rest, ctx),
         fallback,
       }));
     },
 
     confirm: (options: ConfirmOptions): Promise<boolean> => {
-      const { content, fallback, ...rest } = options;
-      return manager.confirm((ctx) => ({
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      if (!content) {
+        return getManager().confirm({ ...rest, fallback });
+      }
+      return getManager().confirm((ctx) => ({
         ...buildShowOptions(content, rest, ctx),
         fallback,
       }));
     },
 
     alert: (options: AlertOptions): Promise<void> => {
-      const { content, ...rest } = options;
-      return manager.alert((ctx) => buildShowOptions(content, rest, ctx));
+      const { content, ...rest } = bridgeAsyncFooter(options);
+      return getManager().alert((ctx) => buildShowOptions(content, rest, ctx));
     },
 
     choice: <K,>(options: ChoiceOptions<K>): Promise<K | undefined> => {
-      const { content, fallback, ...rest } = options;
-      return manager.choice<K>((ctx) => ({
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      return getManager().choice<K>((ctx) => ({
+        ...buildShowOptions(content, rest, ctx),
+        fallback,
+      }));
+    },
+
+    input: (options: InputOptions): Promise<string | undefined> => {
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      if (!content) {
+        return getManager().input({ ...rest, fallback });
+      }
+      return getManager().prompt<string>((ctx) => ({
+        ...buildShowOptions(content, rest, ctx),
+        fallback,
+      }));
+    },
+
+    select: <K,>(options: SelectOptions<K>): Promise<K | undefined> => {
+      const { content, fallback, ...rest } = bridgeAsyncFooter(options);
+      if (!content) {
+        return getManager().select<K>({ ...rest, fallback });
+      }
+      return getManager().choice<K>((ctx) => ({
         ...buildShowOptions(content, rest, ctx),
         fallback,
       }));
     },
+
+    wizard: <T,>(options: WizardOptions<T>): Promise<T | undefined> =>
+      getManager().wizard<T, WizardContent<T>>(options, (content, ctx) =>
+        buildShowOptions(content, {}, ctx),
+      ),
   };
 }
 
+/**
+ * Dialog actions bound to the most recently mounted DialogProvider, for code
+ * outside the component tree such as command handlers and key bindings.
+ *
+ * Calls made while no provider is mounted throw.
+ *
+ * @example
+ * ```tsx
+ * import { dialog } from "@opentui-ui/dialog/solid";
+ *
+ * commands.register("file.delete", async (file) => {
+ *   const confirmed = await dialog.confirm({ title: `Delete ${file.name}?` });
+ *   if (confirmed) await file.delete();
+ * });
+ * ```
+ */
+export const dialog: DialogActions = createDialogActions(
+  getActiveDialogManager,
+);
+
 /**
  * Subscribe to reactive dialog state with a selector.
  *
  * Returns an accessor that tracks in effects/memos. The selector
  * is called inside a memo, so only the selected value is tracked.
+ * Pass a scope name to read the state of that DialogScope instead of the
+ * nearest one.
  *
  * @example
  * ```tsx
@@ -315,16 +559,29 @@ export function useDialog(): DialogActions {
  */
 export function useDialogState<T>(
   selector: (state: DialogState) => T,
+  scope?: string,
 ): Accessor<T> {
-  const { dialogs } = useDialogContext();
+  const context = useDialogContext();
+  const scopes = useContext(DialogScopesContext);
+
+  // Re-resolve a named scope when scopes mount or unmount
+  const [scopesVersion, setScopesVersion] = createSignal(0);
+  if (scope !== undefined && scopes) {
+    onCleanup(scopes.subscribe(() => setScopesVersion((v) => v + 1)));
+  }
 
   return createMemo(() => {
-    const d = dialogs();
+    scopesVersion();
+    const target = scope === undefined ? context : scopes?.get(scope);
+    if (!target) return selector(EMPTY_STATE);
+
+    const d = target.dialogs();
     const state: DialogState = {
       isOpen: d.length > 0,
       dialogs: d,
       topDialog: d.length > 0 ? d[d.length - 1] : undefined,
       count: d.length,
+      queue: target.queue(),
     };
     return selector(state);
   });
@@ -336,7 +593,9 @@ export function useDialogState<T>(
  * This prevents keyboard events from affecting stacked dialogs that are not focused.
  * Use this instead of `useKeyboard` inside dialog content components.
  *
- * @param handler - Keyboard event handler (only called when dialog is topmost)
+ * @param handler - Keyboard event handler (only called when dialog is topmost),
+ *   or handlers by key binding such as `"y"` or `"ctrl+s"`. Matched bindings
+ *   prevent the key's default handling.
  * @param dialogId - The dialog's ID from context (e.g., `ctx.dialogId`)
  *
  * @example
@@ -349,25 +608,36 @@ export function useDialogState<T>(
  *
  *   return () => <text>Press Enter to confirm</text>;
  * }
+ *
+ * // Or declare the shortcuts
+ * useDialogKeyboard({ y: () => props.resolve(true), n: () => props.resolve(false) }, props.dialogId);
  * ```
  */
 export function useDialogKeyboard(
-  handler: (key: KeyEvent) => void | Promise<void>,
+  handler: ((key: KeyEvent) => void | Promise<void>) | DialogKeyHandlers,
   dialogId: DialogId,
 ): void {
   const isTopmost = useDialogState((s) => s.topDialog?.id === dialogId);
 
   useKeyboard((key) => {
-    if (isTopmost()) {
+    if (!isTopmost()) return;
+
+    if (typeof handler === "function") {
       handler(key);
+    } else if (dispatchKeyBindings(key, handler)) {
+      // Keep the key from also pressing a focused button
+      key.preventDefault();
     }
   });
 }
 
-export interface DialogProviderProps extends DialogContainerOptions {}
+export interface DialogProviderProps
+  extends DialogContainerOptions,
+    DialogManagerOptions {}
 
 /**
- * Provides dialog functionality to children via useDialog() and useDialogState() hooks.
+ * Provides dialog functionality to children via useDialog() and useDialogState() hooks,
+ * and to the module-level `dialog` facade while mounted.
  *
  * @example
  * ```tsx
@@ -380,140 +650,339 @@ export function DialogProvider(props: ParentProps<DialogProviderProps>) {
   const renderer = useRenderer();
   const dimensions = useTerminalDimensions();
 
-  const manager = new DialogManager(renderer);
+  const manager = new DialogManager(renderer, { mode: props.mode });
+  const scopes = createDialogScopeRegistry<DialogContextValue>();
 
   const container = new DialogContainerRenderable(renderer, {
     manager,
+    ...pickContainerOptions(props),
+  });
+  renderer.root.add(container);
+
+  const { context, portals } = createDialogBridge(manager, container);
+
+  onCleanup(() => {
+    container.destroyRecursively();
+    renderer.root.remove(container.id);
+    manager.destroy();
+  });
+  onCleanup(activateDialogManager(manager));
+
+  createEffect(() => {
+    const dims = dimensions();
+    container.updateDimensions(dims.width, dims.height);
+  });
+
+  // TODO! Refactor to JSX once @opentui/solid 'jsx' exports are fixed!
+  return createComponent(DialogScopesContext.Provider, {
+    value: scopes,
+    get children() {
+      return createComponent(DialogContext.Provider, {
+        value: context,
+        get children() {
+          return [
+            // original {props.children}
+            props.children,
+            portals,
+          ];
+        },
+      });
+    },
+  });
+}
+
+export interface DialogScopeProps
+  extends DialogContainerOptions,
+    DialogManagerOptions {
+  /** Register the scope under this name for `useDialog(name)`. */
+  name?: string;
+  /** Layout of the box that wraps the children and bounds the dialogs. */
+  style?: BoxProps["style"];
+}
+
+/**
+ * Region with its own dialog manager. Dialogs shown through it are laid out
+ * inside its box and only block that box, e.g. one pane of a split layout.
+ *
+ * `useDialog()` inside the scope uses the scope's manager. Give the scope a
+ * `name` to reach it from elsewhere with `useDialog(name)`.
+ *
+ * @example
+ * ```tsx
+ * <DialogProvider>
+ *   <box flexDirection="row">
+ *     <DialogScope name="pane-left" style={{ flexGrow: 1 }}>
+ *       <FileTree />
+ *     </DialogScope>
+ *     <Editor />
+ *   </box>
+ * </DialogProvider>
+ * ```
+ */
+export function DialogScope(props: ParentProps<DialogScopeProps>) {
+  const renderer = useRenderer();
+  const scopes = useContext(DialogScopesContext);
+
+  const manager = new DialogManager(renderer, { mode: props.mode });
+
+  const target = createElement("box") as BoxRenderable;
+  spread(
+    target,
+    {
+      get style() {
+        return props.style;
+      },
+    },
+    true,
+  );
+
+  // The container mounts itself into the box
+  const container = new DialogContainerRenderable(renderer, {
+    manager,
+    target,
+    ...pickContainerOptions(props),
+  });
+
+  const { context, portals } = createDialogBridge(manager, container);
+
+  const name = props.name;
+  if (scopes && name !== undefined) {
+    onCleanup(scopes.register(name, context));
+  }
+
+  onCleanup(() => {
+    container.destroyRecursively();
+    manager.destroy();
+  });
+
+  return createComponent(DialogContext.Provider, {
+    value: context,
+    get children() {
+      insert(target, () => props.children);
+      return [target, portals];
+    },
+  });
+}
+
+/** Container options from component props, without children and scope props. */
+function pickContainerOptions(
+  props: DialogContainerOptions,
+): DialogContainerOptions {
+  return {
     size: props.size,
     dialogOptions: props.dialogOptions,
     sizePresets: props.sizePresets,
     closeOnEscape: props.closeOnEscape,
+    keys: props.keys,
     closeOnClickOutside: props.closeOnClickOutside,
     backdropColor: props.backdropColor,
     backdropOpacity: props.backdropOpacity,
+    backdropMode: props.backdropMode,
+    backdropDesaturate: props.backdropDesaturate,
     unstyled: props.unstyled,
-  });
-  renderer.root.add(container);
+    transition: props.transition,
+    reducedMotion: props.reducedMotion,
+  };
+}
 
+/**
+ * Bridge a manager and its container to Solid: reactive dialog state for
+ * the context, and portals that mount JSX content into the dialogs.
+ */
+function createDialogBridge(
+  manager: DialogManager,
+  container: DialogContainerRenderable,
+): { context: DialogContextValue; portals: JSX.Element } {
   // Reactive signal for dialog state - drives both useDialogState() reactivity and portal rendering
   const [dialogs, setDialogs] = createSignal<readonly Dialog[]>([]);
+  const [queue, setQueue] = createSignal<readonly Dialog[]>([]);
+
+  // Closing dialogs stay mounted during their exit transition
+  const [removedCount, setRemovedCount] = createSignal(0);
+  const onDialogRemoved = () => setRemovedCount((count) => count + 1);
+  container.on(DialogContainerEvents.DIALOG_REMOVED, onDialogRemoved);
 
   let disposed = false;
 
-  // Cache maintains stable references for <For> to preserve component state
-  const portalItemCache = new Map<string | number, PortalItem>();
+  // Caches maintain stable references for <For> to preserve component state
+  const portalItemCaches: Record<
+    PortalSlot,
+    Map<string | number, PortalItem>
+  > = {
+    [JSX_CONTENT_KEY]: new Map(),
+    [JSX_FOOTER_KEY]: new Map(),
+  };
 
   // Bridge renderable layer to Solid's reactive system
-  const unsubscribe = manager.subscribe((_data: Dialog | DialogToClose) => {
+  const sync = () => {
     queueMicrotask(() => {
       if (!disposed) {
         setDialogs(manager.getDialogs());
+        setQueue(manager.getQueue());
       }
     });
-  });
+  };
+  const unsubscribe = manager.subscribe(sync);
+  const unsubscribeQueue = manager.subscribeQueue(sync);
 
   onCleanup(() => {
     disposed = true;
     unsubscribe();
-    portalItemCache.clear();
-    container.destroyRecursively();
-    renderer.root.remove(container.id);
-    manager.destroy();
-  });
-
-  createEffect(() => {
-    const dims = dimensions();
-    container.updateDimensions(dims.width);
+    unsubscribeQueue();
+    container.off(DialogContainerEvents.DIALOG_REMOVED, onDialogRemoved);
+    for (const slot of PORTAL_SLOTS) {
+      portalItemCaches[slot].clear();
+    }
   });
 
   const portalItems = createMemo((): PortalItem[] => {
-    // Track dialogs signal to update when dialogs change
+    // Track dialogs and removals to update when mounted dialogs change
     dialogs();
+    removedCount();
 
     const items: PortalItem[] = [];
-    const dialogRenderables = container.getDialogRenderables();
 
-    for (const [id, dialogRenderable] of dialogRenderables) {
-      const dialogWithJsx = dialogRenderable.dialog as DialogWithJsx;
-      const contentAccessor = dialogWithJsx[JSX_CONTENT_KEY];
+    const addItem = (
+      id: string | number,
+      slot: PortalSlot,
+      contentAccessor: ContentAccessor | undefined,
+      mount: BoxRenderable | null,
+    ) => {
+      if (contentAccessor === undefined || !mount) return;
 
-      if (contentAccessor !== undefined) {
-        const cached = portalItemCache.get(id);
-        const shouldUpdateCachedItem =
-          !cached || cached.mount !== dialogRenderable;
+      const cache = portalItemCaches[slot];
+      const cached = cache.get(id);
+      const shouldUpdateCachedItem = !cached || cached.mount !== mount;
 
-        const item: PortalItem = shouldUpdateCachedItem
-          ? { id, contentAccessor, mount: dialogRenderable }
-          : cached;
-
-        if (shouldUpdateCachedItem) {
-          portalItemCache.set(id, item);
-        }
+      const item: PortalItem = shouldUpdateCachedItem
+        ? { id, slot, contentAccessor, mount }
+        : cached;
 
-        items.push(item);
+      if (shouldUpdateCachedItem) {
+        cache.set(id, item);
       }
+
+      items.push(item);
+    };
+
+    for (const dialogRenderable of container.getMountedDialogRenderables()) {
+      const id = dialogRenderable.dialog.id;
+      const dialogWithJsx = dialogRenderable.dialog as DialogWithJsx;
+
+      addItem(
+        id,
+        JSX_CONTENT_KEY,
+        dialogWithJsx[JSX_CONTENT_KEY],
+        dialogRenderable.body,
+      );
+      addItem(
+        id,
+        JSX_FOOTER_KEY,
+        dialogWithJsx[JSX_FOOTER_KEY],
+        dialogRenderable.footer,
+      );
     }
 
     return items;
   });
 
   createEffect(() => {
-    // Track dialogs signal to clean cache when dialogs close
+    // Track dialogs and removals to clean cache when dialogs close
     dialogs();
+    removedCount();
 
-    const dialogRenderables = container.getDialogRenderables();
-    const activeIds = new Set(dialogRenderables.keys());
+    const activeIds = new Set(
+      container.getMountedDialogRenderables().map((d) => d.dialog.id),
+    );
 
-    for (const id of portalItemCache.keys()) {
-      if (!activeIds.has(id)) {
-        portalItemCache.delete(id);
+    for (const slot of PORTAL_SLOTS) {
+      const cache = portalItemCaches[slot];
+      for (const id of cache.keys()) {
+        if (!activeIds.has(id)) {
+          cache.delete(id);
+        }
       }
     }
   });
 
-  // Context value includes both manager and reactive dialogs signal
-  const contextValue: DialogContextValue = { manager, dialogs };
-
-  // TODO! Refactor to JSX once @opentui/solid 'jsx' exports are fixed!
-  return createComponent(DialogContext.Provider, {
-    value: contextValue,
-    get children() {
-      return [
-        // original {props.children}
-        props.children,
-
-        createComponent(For, {
-          get each() {
-            return portalItems();
-          },
-          children: (item: PortalItem) =>
-            createComponent(Portal, {
-              mount: item.mount,
-              get children() {
-                return item.contentAccessor();
-              },
-            }),
-        }),
-      ];
+  const portals = createComponent(For, {
+    get each() {
+      return portalItems();
+    },
+    children: (item: PortalItem) => {
+      // Follow in-place updates (re-show with the same id) without
+      // remounting the portal or the dialog renderable it targets
+      const contentAccessor = createMemo(() => {
+        const dialog = dialogs().find((d) => d.id === item.id) as
+          | DialogWithJsx
+          | undefined;
+        return dialog?.[item.slot] ?? item.contentAccessor;
+      });
+
+      return createComponent(Portal, {
+        mount: item.mount,
+        get children() {
+          return () => contentAccessor()();
+        },
+      });
     },
   });
+
+  return { context: { manager, dialogs, queue }, portals };
 }
 
 // =============================================================================
 // Re-exports for convenience
 // =============================================================================
 
+export { DialogAbortedError } from "./errors";
 export type {
   AlertContext,
   ChoiceContext,
   ConfirmContext,
   DialogState,
   PromptContext,
+  WizardContext,
 } from "./prompts";
 export { type DialogTheme, themes } from "./themes";
 export type {
+  DialogAnchor,
+  DialogBackdropMode,
+  DialogBackdropOpacity,
+  DialogClosedEvent,
+  DialogCloseReason,
+  DialogClosingEvent,
   DialogContainerOptions,
+  DialogCtrlCBehavior,
+  DialogDimensions,
+  DialogDismissedEvent,
+  DialogDismissReason,
+  DialogEvent,
+  DialogEventListener,
+  DialogEventMap,
+  DialogEventName,
+  DialogFocusRestoredEvent,
   DialogId,
+  DialogKeyBinding,
+  DialogKeyHandlers,
+  DialogKeymap,
+  DialogKeys,
+  DialogManagerOptions,
+  DialogMode,
+  DialogOpenedEvent,
+  DialogOpenOptions,
+  DialogOpenReason,
+  DialogPlacement,
+  DialogPosition,
+  DialogResolvedEvent,
+  DialogSelectOption,
   DialogSize,
+  DialogSizePreset,
   DialogStyle,
+  DialogTransition,
+  DialogTransitionPreset,
+  DialogUpdatedEvent,
+  DialogUpdateReason,
+  SerializedDialog,
+  SerializedDialogState,
 } from "./types";
@@ -13,6 +13,11 @@ export const DEFAULT_STYLE: DialogStyle = {
   backgroundColor: "#262626",
   border: false,
   padding: 1,
+  textColor: "#e5e5e5",
+  mutedColor: "#a3a3a3",
+  accentColor: "#60a5fa",
+  dangerColor: "#f87171",
+  inputBackgroundColor: "#171717",
 };
 
 export const DEFAULT_PADDING = { top: 1, right: 1, bottom: 1, left: 1 };
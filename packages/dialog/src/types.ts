@@ -1,19 +1,38 @@
-import type { BorderStyle, Renderable, RenderContext } from "@opentui/core";
-import { JSX_CONTENT_KEY } from "./constants";
+import type {
+  BorderStyle,
+  KeyEvent,
+  Renderable,
+  RenderContext,
+} from "@opentui/core";
+import { JSX_CONTENT_KEY, JSX_FOOTER_KEY } from "./constants";
 
 export type DialogId = string | number;
 
 export type DialogSize = "small" | "medium" | "large" | "full";
 
+/** Custom size preset. Percentages are relative to the terminal. */
+export interface DialogSizePreset {
+  width?: number | string;
+  /** Omit to follow the content height. */
+  height?: number | string;
+}
+
+/**
+ * Sizes accept cells, or a percentage of the terminal such as "80%".
+ * Height follows the content unless `height` or a `full` size is set, and
+ * never exceeds the terminal.
+ */
 export interface DialogStyle {
   backgroundColor?: string;
   borderColor?: string;
   borderStyle?: BorderStyle;
   border?: boolean;
   width?: number | string;
-  maxWidth?: number;
-  minWidth?: number;
-  maxHeight?: number;
+  maxWidth?: number | string;
+  minWidth?: number | string;
+  height?: number | string;
+  minHeight?: number | string;
+  maxHeight?: number | string;
   padding?: number;
   paddingX?: number;
   paddingY?: number;
@@ -21,26 +40,355 @@ export interface DialogStyle {
   paddingRight?: number;
   paddingBottom?: number;
   paddingLeft?: number;
+  /** Text color of the built-in prompt UIs (input, confirm, select). */
+  textColor?: string;
+  /** Secondary text color of the built-in prompt UIs. */
+  mutedColor?: string;
+  /** Focused button, input cursor and selected option color. */
+  accentColor?: string;
+  /** Validation errors and destructive confirm buttons. */
+  dangerColor?: string;
+  inputBackgroundColor?: string;
+}
+
+/**
+ * Built-in transition presets.
+ * `slide-*` presets enter from the named edge of the screen.
+ */
+export type DialogTransitionPreset =
+  | "none"
+  | "fade"
+  | "scale"
+  | "slide-top"
+  | "slide-bottom"
+  | "slide-left"
+  | "slide-right";
+
+/** Named easing curve, or a custom function mapping progress 0-1 to 0-1. */
+export type DialogEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | ((t: number) => number);
+
+export interface DialogTransition {
+  /** @default "fade" */
+  preset?: DialogTransitionPreset;
+  /** Duration in milliseconds. @default 150 */
+  duration?: number;
+  /** @default "ease-out" */
+  easing?: DialogEasing;
+}
+
+/**
+ * Where a dialog sits on screen.
+ * `top`/`bottom` attach to that edge; `left`/`right` are full-height drawers.
+ * With an `anchor`, the placement picks the side of the anchor instead.
+ */
+export type DialogPlacement = "center" | "top" | "bottom" | "left" | "right";
+
+/**
+ * What a popover-style dialog is positioned against:
+ * a renderable, or a screen coordinate with an optional size.
+ */
+export type DialogAnchor =
+  | Renderable
+  | { x: number; y: number; width?: number; height?: number };
+
+/** Top-left corner of a dialog, in terminal cells. */
+export interface DialogPosition {
+  x: number;
+  y: number;
+}
+
+/** Outer size of a dialog, in terminal cells. */
+export interface DialogDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Factory function that creates dialog content from a RenderContext.
+ * Receives the dialog's resolved style for theming the content.
+ */
+export type DialogContentFactory = (
+  ctx: RenderContext,
+  style: DialogStyle,
+) => Renderable;
+
+/**
+ * Where focus goes when a dialog opens.
+ * A renderable id, or a function that picks a renderable from the dialog.
+ */
+export type DialogInitialFocus =
+  | string
+  | ((dialog: Renderable) => Renderable | null | undefined);
+
+/**
+ * Where focus goes when a dialog closes.
+ * A renderable, or a function that returns one at close time.
+ */
+export type DialogReturnFocus =
+  | Renderable
+  | (() => Renderable | null | undefined);
+
+/**
+ * Key combination such as `"escape"`, `"ctrl+c"`, `"shift+tab"` or `"y"`.
+ * Modifiers are `ctrl`, `meta`, `shift` and `option` (or `alt`). An
+ * uppercase letter implies `shift`.
+ */
+export type DialogKeyBinding = string;
+
+/** One key binding, or several that do the same thing. */
+export type DialogKeys = DialogKeyBinding | readonly DialogKeyBinding[];
+
+/** Handlers by key binding, e.g. `{ y: accept, n: decline }`. */
+export type DialogKeyHandlers = Record<
+  DialogKeyBinding,
+  (key: KeyEvent) => void | Promise<void>
+>;
+
+/**
+ * What Ctrl+C does while a dialog has the keyboard.
+ * - `ignore`: leave it to the app
+ * - `close`: close the top dialog, like a close key
+ * - `closeAll`: close every dialog and clear the queue
+ *
+ * The renderer exits on Ctrl+C unless it was created with
+ * `exitOnCtrlC: false`.
+ */
+export type DialogCtrlCBehavior = "ignore" | "close" | "closeAll";
+
+/** Key bindings handled by the container for the dialog with the keyboard. */
+export interface DialogKeymap {
+  /** Keys that close the dialog. `false` disables them. @default "escape" */
+  close?: DialogKeys | false;
+  /**
+   * Keys that run the dialog's `defaultAction`. Ignored while a dialog
+   * button has focus, since the key presses the button.
+   * @default "return"
+   */
+  defaultAction?: DialogKeys | false;
+  /** @default "ignore" */
+  ctrlC?: DialogCtrlCBehavior;
 }
 
-/** Factory function that creates dialog content from a RenderContext. */
-export type DialogContentFactory = (ctx: RenderContext) => Renderable;
+/**
+ * Why a dialog is closing.
+ * - `escape`: a close key (Escape by default) was pressed
+ * - `ctrl-c`: Ctrl+C was pressed with the `ctrlC` key set to close
+ * - `backdrop`: the backdrop was clicked
+ * - `close-button`: the header close button was clicked
+ * - `programmatic`: `close()` or `closeAll()` was called
+ * - `replaced`: `replace()` closed it to show another dialog
+ * - `resolved`: an async dialog resolved or was dismissed from its content
+ * - `abort`/`timeout`: an async dialog's `signal` aborted or its `timeout`
+ *   ran out. These closes skip `onBeforeClose`.
+ */
+export type DialogCloseReason =
+  | "escape"
+  | "ctrl-c"
+  | "backdrop"
+  | "close-button"
+  | "programmatic"
+  | "replaced"
+  | "resolved"
+  | "abort"
+  | "timeout";
+
+/**
+ * Why a dialog opened.
+ * - `shown`: `show()` (or a method built on it) opened it
+ * - `dequeued`: it waited in the queue and the dialog before it closed
+ */
+export type DialogOpenReason = "shown" | "dequeued";
+
+/**
+ * Why an open dialog changed.
+ * - `updated`: `show()` was called again with its ID
+ * - `raised`: it was moved to the top of the stack
+ */
+export type DialogUpdateReason = "updated" | "raised";
+
+/**
+ * Why an async dialog settled without a value: the reason its dialog
+ * closed, including `abort`/`timeout` from its `signal` or `timeout` option.
+ */
+export type DialogDismissReason = DialogCloseReason;
+
+interface DialogEventBase {
+  id: DialogId;
+  /** `Date.now()` when the event happened. */
+  timestamp: number;
+}
+
+export interface DialogOpenedEvent extends DialogEventBase {
+  type: "opened";
+  reason: DialogOpenReason;
+  dialog: Dialog;
+}
+
+export interface DialogUpdatedEvent extends DialogEventBase {
+  type: "updated";
+  reason: DialogUpdateReason;
+  dialog: Dialog;
+}
+
+/** A close was requested. `onBeforeClose` may still keep the dialog open. */
+export interface DialogClosingEvent extends DialogEventBase {
+  type: "closing";
+  reason: DialogCloseReason;
+}
+
+export interface DialogClosedEvent extends DialogEventBase {
+  type: "closed";
+  reason: DialogCloseReason;
+  /** Milliseconds the dialog was open; 0 if it never left the queue. */
+  duration: number;
+}
+
+/** An async dialog settled with a value from its content. */
+export interface DialogResolvedEvent extends DialogEventBase {
+  type: "resolved";
+  reason: "resolved";
+  value: unknown;
+  /** Milliseconds from opening to resolving. */
+  duration: number;
+}
+
+/** An async dialog settled with its fallback, or rejected on abort. */
+export interface DialogDismissedEvent extends DialogEventBase {
+  type: "dismissed";
+  reason: DialogDismissReason;
+  /** Milliseconds from opening to dismissing. */
+  duration: number;
+}
+
+/** Focus moved back to the app after a dialog closed. */
+export interface DialogFocusRestoredEvent extends DialogEventBase {
+  type: "focusRestored";
+  /** Why the dialog whose close restored focus closed. */
+  reason: DialogCloseReason;
+  target: Renderable;
+}
+
+/** Events of `DialogManager.on()`, by name. */
+export interface DialogEventMap {
+  opened: DialogOpenedEvent;
+  updated: DialogUpdatedEvent;
+  closing: DialogClosingEvent;
+  closed: DialogClosedEvent;
+  resolved: DialogResolvedEvent;
+  dismissed: DialogDismissedEvent;
+  focusRestored: DialogFocusRestoredEvent;
+}
+
+export type DialogEventName = keyof DialogEventMap;
+
+export type DialogEvent = DialogEventMap[DialogEventName];
+
+export type DialogEventListener<K extends DialogEventName> = (
+  event: DialogEventMap[K],
+) => void;
 
 export interface Dialog {
   id: DialogId;
   content: DialogContentFactory;
+  /** Heading rendered above the body. */
+  title?: string;
+  /** Secondary text rendered between the title and the body. */
+  description?: string;
+  /**
+   * Content pinned below the body, e.g. action buttons.
+   * It stays visible while a tall body scrolls.
+   */
+  footer?: DialogContentFactory;
+  /** Render a close button in the header. @default false */
+  showCloseButton?: boolean;
   size?: DialogSize;
   style?: DialogStyle;
   unstyled?: boolean;
-  /** @default true */
+  /** Set to `false` to disable the close keys. @default true */
   closeOnEscape?: boolean;
   /** @default false */
   closeOnClickOutside?: boolean;
+  /** Per-dialog key bindings, merged over the container's `keys`. */
+  keys?: DialogKeymap;
+  /**
+   * Run when a `defaultAction` key (Enter by default) is pressed, e.g. to
+   * submit a form from any of its fields.
+   */
+  defaultAction?: () => void;
+  /**
+   * Modal dialogs draw a backdrop and own the keyboard. Non-modal dialogs
+   * float above the app and leave it interactive; they only handle keys
+   * while focus is inside them, and skip the queue in `queue` mode.
+   * @default true
+   */
+  modal?: boolean;
   /** Per-dialog backdrop color override. */
   backdropColor?: string;
   /** Per-dialog backdrop opacity override. 0-1 (number) or "50%" (string). */
   backdropOpacity?: number | string;
-  onClose?: () => void;
+  /** Per-dialog backdrop mode override. */
+  backdropMode?: DialogBackdropMode;
+  /** Per-dialog override of how much `dim` mode desaturates. 0-1. */
+  backdropDesaturate?: number;
+  /** Per-dialog enter/exit transition override. */
+  transition?: DialogTransitionPreset | DialogTransition;
+  /**
+   * Queue priority in `queue` mode. Higher priorities are shown first;
+   * equal priorities keep their order.
+   * @default 0
+   */
+  priority?: number;
+  /** @default "center" */
+  placement?: DialogPlacement;
+  /**
+   * Position the dialog next to a renderable or coordinate, like a popover.
+   * Flips to the opposite side and clamps when it would leave the screen.
+   */
+  anchor?: DialogAnchor;
+  /**
+   * Let the user move the dialog by dragging its border or title row.
+   * The position is clamped to the terminal.
+   * @default false
+   */
+  draggable?: boolean;
+  /**
+   * Let the user resize the dialog by dragging its bottom-right corner.
+   * @default false
+   */
+  resizable?: boolean;
+  /**
+   * Called when the user finishes moving the dialog. Pass the position back
+   * as `anchor` to restore it later.
+   */
+  onMove?: (position: DialogPosition) => void;
+  /**
+   * Called when the user finishes resizing the dialog. Pass the size back
+   * as `style.width`/`style.height` to restore it later.
+   */
+  onResize?: (size: DialogDimensions) => void;
+  /**
+   * Renderable to focus when the dialog opens.
+   * Defaults to the first focusable descendant; `false` leaves focus alone.
+   */
+  initialFocus?: DialogInitialFocus | false;
+  /**
+   * Renderable to focus when the dialog closes.
+   * Defaults to whatever was focused before it opened; `false` skips restoring.
+   */
+  returnFocus?: DialogReturnFocus | false;
+  /**
+   * Called before the dialog closes. Return `false`, or a Promise resolving
+   * to `false`, to keep it open (e.g. to confirm unsaved changes).
+   */
+  onBeforeClose?: (
+    reason: DialogCloseReason,
+  ) => boolean | undefined | Promise<boolean>;
+  onClose?: (reason: DialogCloseReason) => void;
   onOpen?: () => void;
   onBackdropClick?: () => void;
 }
@@ -53,6 +401,8 @@ export interface Dialog {
 export interface InternalDialog extends Dialog {
   /** @internal Used by React/Solid bindings to store JSX portal content. */
   [JSX_CONTENT_KEY]?: unknown;
+  /** @internal Used by React/Solid bindings to store JSX footer content. */
+  [JSX_FOOTER_KEY]?: unknown;
   /**
    * When true, the dialog is initially hidden until visibility is updated.
    * Used by adapter(s) to prevent flicker when JSX content is
@@ -66,6 +416,18 @@ export interface DialogToClose {
   close: true;
 }
 
+/**
+ * How a DialogManager handles a dialog shown while another one is open.
+ * - `stack`: show it on top of the current dialog
+ * - `queue`: wait until no dialog is open, highest `priority` first
+ */
+export type DialogMode = "stack" | "queue";
+
+export interface DialogManagerOptions {
+  /** @default "stack" */
+  mode?: DialogMode;
+}
+
 export interface DialogShowOptions extends Omit<Dialog, "id"> {
   id?: DialogId;
 }
@@ -74,6 +436,49 @@ export interface InternalDialogShowOptions extends Omit<InternalDialog, "id"> {
   id?: DialogId;
 }
 
+/**
+ * Builds the show options of a registered dialog type from its props.
+ * Keep props JSON-serializable so `serialize()` can save them.
+ * @template P The props the dialog is opened with.
+ */
+export type DialogComponent<P> = (props: P) => DialogShowOptions;
+
+export interface DialogOpenOptions {
+  /** Dialog ID. Opening an ID that is already open updates that dialog. */
+  id?: DialogId;
+}
+
+/** A dialog opened with `open()`, as saved by `serialize()`. */
+export interface SerializedDialog {
+  id: DialogId;
+  type: string;
+  props: unknown;
+}
+
+/** The registered dialogs of a manager, as saved by `serialize()`. */
+export interface SerializedDialogState {
+  version: 1;
+  /** Open dialogs oldest first, followed by queued dialogs. */
+  dialogs: SerializedDialog[];
+}
+
+/**
+ * How a backdrop mutes the screen behind a modal dialog.
+ * - `overlay`: paint a translucent `backdropColor` box over it
+ * - `dim`: recolor the cells already drawn, keeping their glyphs. The
+ *   opacity sets how far fg and bg colors move towards `backdropColor`.
+ */
+export type DialogBackdropMode = "overlay" | "dim";
+
+/**
+ * Backdrop opacity: 0-1 (number), "50%" (string), or a function of the
+ * backdrop's stack level (0 for the bottom-most modal dialog).
+ */
+export type DialogBackdropOpacity =
+  | number
+  | string
+  | ((level: number) => number | string);
+
 export interface DialogOptions {
   style?: DialogStyle;
 }
@@ -82,16 +487,35 @@ export interface DialogContainerOptions {
   /** @default "medium" */
   size?: DialogSize;
   dialogOptions?: DialogOptions;
-  sizePresets?: Partial<Record<DialogSize, number>>;
-  /** @default true */
+  /** Width per size, or a width and height. */
+  sizePresets?: Partial<Record<DialogSize, number | DialogSizePreset>>;
+  /** Set to `false` to disable the close keys. @default true */
   closeOnEscape?: boolean;
   /** @default false */
   closeOnClickOutside?: boolean;
+  /** Close keys, the `defaultAction` keys and what Ctrl+C does. */
+  keys?: DialogKeymap;
   /** @default "#000000" */
   backdropColor?: string;
-  /** 0-1 (number) or "50%" (string). @default 0.35 */
-  backdropOpacity?: number | string;
+  /**
+   * 0-1 (number) or "50%" (string). Each stacked modal dialog gets its own
+   * backdrop; pass a function to vary the opacity by stack level.
+   * @default 0.35
+   */
+  backdropOpacity?: DialogBackdropOpacity;
+  /** @default "overlay" */
+  backdropMode?: DialogBackdropMode;
+  /**
+   * How much `dim` mode desaturates the screen behind a dialog, from 0
+   * (keep colors) to 1 (grayscale).
+   * @default 0
+   */
+  backdropDesaturate?: number;
   unstyled?: boolean;
+  /** Enter/exit transition for dialogs and the backdrop. @default "none" */
+  transition?: DialogTransitionPreset | DialogTransition;
+  /** Skip all transitions, e.g. for users who disable animations. @default false */
+  reducedMotion?: boolean;
 }
 
 // =============================================================================
@@ -100,13 +524,31 @@ export interface DialogContainerOptions {
 // These generic types reduce duplication between core and framework adapters.
 // Framework adapters (React, Solid, etc.) extend these with their content types.
 
+/** Options for settling an async dialog from outside the dialog. */
+export interface AsyncDialogAbortOptions {
+  /** Close the dialog when this signal aborts. */
+  signal?: AbortSignal;
+  /**
+   * Close the dialog after this many milliseconds. Counted from when the
+   * dialog opens, so time spent in the queue doesn't count.
+   */
+  timeout?: number;
+  /**
+   * Reject with `DialogAbortedError` on abort or timeout instead of
+   * resolving with the fallback value.
+   * @default false
+   */
+  rejectOnAbort?: boolean;
+}
+
 /**
  * Base options for async dialog methods (prompt, confirm, alert, choice).
  * Excludes `content` (replaced by context-specific content) and `id` (auto-generated).
  * Note: `onClose` is supported - it will be called before the Promise resolves.
  */
 export interface AsyncDialogOptions
-  extends Omit<DialogShowOptions, "content" | "id"> {}
+  extends Omit<DialogShowOptions, "content" | "id">,
+    AsyncDialogAbortOptions {}
 
 /**
  * Generic base for prompt dialog options.
@@ -120,17 +562,81 @@ export interface BasePromptOptions<T, TContent> extends AsyncDialogOptions {
   fallback?: T;
 }
 
+/** Text shown by the built-in prompt UIs. */
+export interface BuiltinPromptText {
+  /** Body text above the controls. */
+  message?: string;
+  /** @default "OK" */
+  confirmLabel?: string;
+  /** @default "Cancel" */
+  cancelLabel?: string;
+}
+
 /**
  * Generic base for confirm dialog options.
+ * Without `content`, a built-in message with Cancel/OK buttons is rendered.
  * @template TContent The content type (varies by adapter).
  */
-export interface BaseConfirmOptions<TContent> extends AsyncDialogOptions {
-  /** Content factory that receives the confirm context. */
-  content: TContent;
+export interface BaseConfirmOptions<TContent>
+  extends AsyncDialogOptions,
+    BuiltinPromptText {
+  /** Content factory that receives the confirm context. Replaces the built-in UI. */
+  content?: TContent;
+  /** Style the confirm button with `dangerColor` and focus Cancel first. */
+  destructive?: boolean;
   /** Fallback value when dialog is dismissed via ESC or backdrop click. @default false */
   fallback?: boolean;
 }
 
+/**
+ * Generic base for input dialog options.
+ * Without `content`, a built-in text input with Cancel/OK buttons is rendered.
+ * @template TContent The content type (varies by adapter).
+ */
+export interface BaseInputOptions<TContent>
+  extends AsyncDialogOptions,
+    BuiltinPromptText {
+  /** Content factory that receives a prompt context. Replaces the built-in UI. */
+  content?: TContent;
+  placeholder?: string;
+  /** Initial value of the input. */
+  defaultValue?: string;
+  /** Return an error message to keep the dialog open, or nothing to accept. */
+  validate?: (value: string) => string | null | undefined;
+  /** Hide typed characters, e.g. for passwords. `true` masks with "*". */
+  mask?: boolean | string;
+  /** Fallback value when dialog is dismissed via ESC or backdrop click. @default undefined */
+  fallback?: string;
+}
+
+/**
+ * An option in the built-in select dialog.
+ * @template K The type of the option's value.
+ */
+export interface DialogSelectOption<K> {
+  label: string;
+  value: K;
+  description?: string;
+}
+
+/**
+ * Generic base for select dialog options.
+ * Without `content`, a built-in option list is rendered.
+ * @template TContent The content type (varies by adapter).
+ * @template K The type of the option values.
+ */
+export interface BaseSelectOptions<TContent, K = unknown>
+  extends AsyncDialogOptions,
+    Pick<BuiltinPromptText, "message"> {
+  /** Content factory that receives a choice context. Replaces the built-in UI. */
+  content?: TContent;
+  options: DialogSelectOption<K>[];
+  /** Value of the option selected when the dialog opens. */
+  defaultValue?: K;
+  /** Fallback value when dialog is dismissed via ESC or backdrop click. @default undefined */
+  fallback?: K;
+}
+
 /**
  * Generic base for alert dialog options.
  * @template TContent The content type (varies by adapter).
@@ -153,6 +659,48 @@ export interface BaseChoiceOptions<TContent, K = unknown>
   fallback?: K;
 }
 
+/**
+ * A step of a wizard dialog.
+ * @template T The combined data of all steps.
+ * @template TContent The content type (varies by adapter).
+ */
+export interface BaseWizardStep<T, TContent> {
+  /** Header title while this step is shown. Defaults to the wizard's `title`. */
+  title?: string;
+  /** Header description while this step is shown. Defaults to the wizard's `description`. */
+  description?: string;
+  /** Content factory that receives the wizard context. */
+  content: TContent;
+  /**
+   * Runs on Next and Finish. Return an error message to stay on this step,
+   * or nothing to continue. May return a Promise.
+   */
+  validate?: (
+    data: Partial<T>,
+  ) => string | null | undefined | Promise<string | null | undefined>;
+}
+
+/**
+ * Generic base for wizard dialog options.
+ * The wizard renders its own Back/Next/Finish footer.
+ * @template T The combined data of all steps.
+ * @template TContent The content type (varies by adapter).
+ */
+export interface BaseWizardOptions<T, TContent>
+  extends Omit<AsyncDialogOptions, "footer"> {
+  steps: BaseWizardStep<T, TContent>[];
+  /** Data the steps start with, e.g. defaults or values being edited. */
+  initialData?: Partial<T>;
+  /** @default "Back" */
+  backLabel?: string;
+  /** @default "Next" */
+  nextLabel?: string;
+  /** @default "Finish" */
+  finishLabel?: string;
+  /** @default "Cancel" */
+  cancelLabel?: string;
+}
+
 /**
  * Base interface for dialog actions returned by useDialog() hooks.
  * Contains the non-generic methods shared by all framework adapters.
@@ -162,12 +710,23 @@ export interface BaseChoiceOptions<TContent, K = unknown>
 export interface BaseDialogActions<TShowOptions> {
   /** Show a new dialog and return its ID. */
   show: (options: TShowOptions) => DialogId;
+  /** Open a registered dialog type with props and return its ID. */
+  open: <P>(type: string, props: P, options?: DialogOpenOptions) => DialogId;
   /** Close a specific dialog by ID, or the top-most dialog if no ID provided. */
-  close: (id?: DialogId) => DialogId | undefined;
+  close: (id?: DialogId, reason?: DialogCloseReason) => DialogId | undefined;
   /** Close all open dialogs. */
   closeAll: () => void;
   /** Close all dialogs and show a new one. */
   replace: (options: TShowOptions) => DialogId;
+  /** Save the dialogs opened with `open()` as JSON-serializable data. */
+  serialize: () => SerializedDialogState;
+  /** Reopen dialogs saved by `serialize()`. Returns their IDs. */
+  restore: (state: SerializedDialogState) => DialogId[];
+  /** Listen to dialog lifecycle events. Returns a function that stops listening. */
+  on: <K extends DialogEventName>(
+    event: K,
+    listener: DialogEventListener<K>,
+  ) => () => void;
 }
 
 export function isDialogToClose(
@@ -175,3 +734,7 @@ export function isDialogToClose(
 ): value is DialogToClose {
   return "close" in value && value.close === true;
 }
+
+export function isModalDialog(dialog: Pick<Dialog, "modal">): boolean {
+  return dialog.modal !== false;
+}
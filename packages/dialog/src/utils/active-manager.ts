@@ -0,0 +1,35 @@
+import type { DialogManager } from "../manager";
+
+/** Managers of the mounted DialogProviders, most recently mounted last. */
+const activeManagers: DialogManager[] = [];
+
+/**
+ * Mark a provider's manager as active, so the module-level `dialog` facade
+ * opens dialogs through it. Returns a function that deactivates it again.
+ *
+ * When several providers are mounted, the most recently mounted one wins.
+ */
+export function activateDialogManager(manager: DialogManager): () => void {
+  activeManagers.push(manager);
+
+  return () => {
+    const index = activeManagers.lastIndexOf(manager);
+    if (index !== -1) activeManagers.splice(index, 1);
+  };
+}
+
+/** The manager of the active DialogProvider. Throws when none is mounted. */
+export function getActiveDialogManager(): DialogManager {
+  const manager = activeManagers[activeManagers.length - 1];
+  if (!manager) {
+    throw new Error(
+      "[@opentui-ui/dialog] `dialog` was called while no DialogProvider is mounted.\n\n" +
+        "The `dialog` facade opens dialogs through the most recently mounted\n" +
+        "DialogProvider. Render one before calling it:\n\n" +
+        "  <DialogProvider>\n" +
+        "    <App />\n" +
+        "  </DialogProvider>",
+    );
+  }
+  return manager;
+}
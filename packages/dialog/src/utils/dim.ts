@@ -0,0 +1,59 @@
+import type { OptimizedBuffer, RGBA } from "@opentui/core";
+
+export interface DimOptions {
+  /** Color the cells are blended towards. */
+  color: RGBA;
+  /** Blend amount towards `color`, 0-1. */
+  amount: number;
+  /** Share of saturation removed before blending, 0-1. */
+  desaturate: number;
+}
+
+/**
+ * Mute the cells already drawn in a region of the buffer, in place.
+ * Glyphs and attributes are kept; only fg and bg colors change.
+ * Transparent colors stay transparent.
+ */
+export function dimBufferRegion(
+  buffer: OptimizedBuffer,
+  region: { x: number; y: number; width: number; height: number },
+  options: DimOptions,
+): void {
+  if (options.amount <= 0 && options.desaturate <= 0) return;
+
+  const { fg, bg } = buffer.buffers;
+  const startX = Math.max(0, region.x);
+  const startY = Math.max(0, region.y);
+  const endX = Math.min(buffer.width, region.x + region.width);
+  const endY = Math.min(buffer.height, region.y + region.height);
+
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const index = (y * buffer.width + x) * 4;
+      dimColor(fg, index, options);
+      dimColor(bg, index, options);
+    }
+  }
+}
+
+function dimColor(
+  colors: Float32Array,
+  index: number,
+  { color, amount, desaturate }: DimOptions,
+): void {
+  if (!colors[index + 3]) return;
+
+  const r = colors[index] ?? 0;
+  const g = colors[index + 1] ?? 0;
+  const b = colors[index + 2] ?? 0;
+  const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+
+  const mix = (channel: number, target: number) => {
+    const muted = channel + (luminance - channel) * desaturate;
+    return muted + (target - muted) * amount;
+  };
+
+  colors[index] = mix(r, color.r);
+  colors[index + 1] = mix(g, color.g);
+  colors[index + 2] = mix(b, color.b);
+}
@@ -0,0 +1,35 @@
+import type { Renderable } from "@opentui/core";
+
+/**
+ * Collect the focusable descendants of a renderable in tree order.
+ * Hidden and destroyed subtrees are skipped.
+ */
+export function getFocusableDescendants(root: Renderable): Renderable[] {
+  const result: Renderable[] = [];
+
+  const visit = (node: Renderable) => {
+    for (const child of node.getChildren()) {
+      if (child.isDestroyed || !child.visible) continue;
+      if (child.focusable) {
+        result.push(child);
+      }
+      visit(child);
+    }
+  };
+
+  visit(root);
+  return result;
+}
+
+/** Check whether `node` is `ancestor` or one of its descendants. */
+export function isDescendantOf(
+  node: Renderable | null | undefined,
+  ancestor: Renderable,
+): boolean {
+  let current: Renderable | null | undefined = node;
+  while (current) {
+    if (current === ancestor) return true;
+    current = current.parent;
+  }
+  return false;
+}
@@ -1,6 +1,30 @@
+export {
+  activateDialogManager,
+  getActiveDialogManager,
+} from "./active-manager";
+export { type DimOptions, dimBufferRegion } from "./dim";
+export { getFocusableDescendants, isDescendantOf } from "./focus";
+export {
+  type DialogKeyInput,
+  dispatchKeyBindings,
+  matchesKeyBinding,
+} from "./keys";
+export {
+  createDialogScopeRegistry,
+  createMissingScopeError,
+  type DialogScopeRegistry,
+} from "./scopes";
 export {
   type ComputeDialogStyleInput,
   type ComputedDialogStyle,
   computeDialogStyle,
+  getDialogHeight,
   getDialogWidth,
+  resolveDimension,
 } from "./style";
+export {
+  type AnimateOptions,
+  animate,
+  type ResolvedTransition,
+  resolveTransition,
+} from "./transition";
@@ -0,0 +1,42 @@
+import {
+  type KeyInput,
+  matchesKeyBinding as matchesBinding,
+} from "@opentui-ui/utils";
+import type { DialogKeyBinding, DialogKeys } from "../types";
+
+/** The parts of a key event that key bindings match against. */
+export type DialogKeyInput = KeyInput;
+
+/**
+ * Whether a key event matches a binding or any of several bindings.
+ * Modifiers must match exactly, so `"y"` doesn't match Ctrl+Y.
+ *
+ * @example
+ * ```ts
+ * matchesKeyBinding(key, "ctrl+s");
+ * matchesKeyBinding(key, ["y", "return"]);
+ * ```
+ */
+export function matchesKeyBinding(
+  key: DialogKeyInput,
+  keys: DialogKeys,
+): boolean {
+  return matchesBinding(key, keys, "@opentui-ui/dialog");
+}
+
+/**
+ * Run the handler of the first binding that matches the key.
+ * Returns whether a handler ran.
+ */
+export function dispatchKeyBindings<TKey extends DialogKeyInput>(
+  key: TKey,
+  handlers: Record<DialogKeyBinding, (key: TKey) => unknown>,
+): boolean {
+  for (const [binding, handler] of Object.entries(handlers)) {
+    if (matchesKeyBinding(key, binding)) {
+      handler(key);
+      return true;
+    }
+  }
+  return false;
+}
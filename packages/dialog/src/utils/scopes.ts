@@ -0,0 +1,58 @@
+/**
+ * Named dialog scopes mounted under a provider, so `useDialog(name)` can
+ * reach a scope from anywhere in the tree. Adapters store whatever they
+ * need per scope, e.g. the manager or its reactive state.
+ */
+export interface DialogScopeRegistry<T> {
+  /** Register a scope. Returns a function that unregisters it. */
+  register: (name: string, scope: T) => () => void;
+  get: (name: string) => T | undefined;
+  /** Called whenever a scope is registered or unregistered. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export function createDialogScopeRegistry<T>(): DialogScopeRegistry<T> {
+  const scopes = new Map<string, T>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  return {
+    register: (name, scope) => {
+      if (scopes.has(name)) {
+        throw new Error(
+          `[@opentui-ui/dialog] A dialog scope named "${name}" is already mounted. Scope names must be unique within a DialogProvider.`,
+        );
+      }
+
+      scopes.set(name, scope);
+      notify();
+
+      return () => {
+        if (scopes.get(name) !== scope) return;
+        scopes.delete(name);
+        notify();
+      };
+    },
+    get: (name) => scopes.get(name),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/** Error thrown when using a named scope that is not mounted. */
+export function createMissingScopeError(name: string): Error {
+  return new Error(
+    `[@opentui-ui/dialog] No dialog scope named "${name}" is mounted.\n\n` +
+      `Wrap the region in a DialogScope with that name:\n\n` +
+      `  <DialogScope name="${name}">\n` +
+      `    <Pane />\n` +
+      `  </DialogScope>`,
+  );
+}
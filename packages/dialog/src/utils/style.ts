@@ -5,6 +5,7 @@ import type {
   Dialog,
   DialogContainerOptions,
   DialogSize,
+  DialogSizePreset,
   DialogStyle,
 } from "../types";
 
@@ -51,15 +52,48 @@ export function computeDialogStyle(
   };
 }
 
+/**
+ * Resolve a size to cells. Numbers are returned as is, percentages such as
+ * "80%" are taken of `total`, and anything else resolves to `undefined`.
+ */
+export function resolveDimension(
+  value: number | string | undefined,
+  total: number,
+): number | undefined {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  if (typeof value === "string" && value.endsWith("%")) {
+    const percent = parseFloat(value);
+    if (!Number.isNaN(percent)) {
+      return Math.floor((percent / 100) * total);
+    }
+  }
+
+  return undefined;
+}
+
+function getSizePreset(
+  size: DialogSize | undefined,
+  containerOptions?: DialogContainerOptions,
+): { effectiveSize: DialogSize; preset: DialogSizePreset } {
+  const effectiveSize: DialogSize =
+    size ?? containerOptions?.size ?? DEFAULT_SIZE;
+  const custom = containerOptions?.sizePresets?.[effectiveSize];
+  const preset = typeof custom === "object" ? custom : { width: custom };
+
+  return { effectiveSize, preset };
+}
+
 export function getDialogWidth(
   size: DialogSize | undefined,
   containerOptions?: DialogContainerOptions,
   terminalWidth?: number,
 ): number {
-  const effectiveSize: DialogSize =
-    size ?? containerOptions?.size ?? DEFAULT_SIZE;
+  const { effectiveSize, preset } = getSizePreset(size, containerOptions);
 
-  const customWidth = containerOptions?.sizePresets?.[effectiveSize];
+  const customWidth = resolveDimension(preset.width, terminalWidth ?? 80);
   if (customWidth !== undefined && customWidth > 0) {
     return customWidth;
   }
@@ -72,3 +106,26 @@ export function getDialogWidth(
 
   return defaultWidth;
 }
+
+/**
+ * Height of a size preset, or `undefined` to follow the content.
+ * `full` fills the terminal minus the same offset as its width.
+ */
+export function getDialogHeight(
+  size: DialogSize | undefined,
+  containerOptions: DialogContainerOptions | undefined,
+  terminalHeight: number,
+): number | undefined {
+  const { effectiveSize, preset } = getSizePreset(size, containerOptions);
+
+  const customHeight = resolveDimension(preset.height, terminalHeight);
+  if (customHeight !== undefined && customHeight > 0) {
+    return customHeight;
+  }
+
+  if (DEFAULT_SIZES[effectiveSize] === -1) {
+    return Math.max(1, terminalHeight - FULL_SIZE_OFFSET);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,94 @@
+import {
+  DEFAULT_TRANSITION_DURATION,
+  TRANSITION_FRAME_INTERVAL,
+} from "../constants";
+import type {
+  DialogContainerOptions,
+  DialogEasing,
+  DialogTransition,
+  DialogTransitionPreset,
+  InternalDialog,
+} from "../types";
+
+export interface ResolvedTransition {
+  preset: DialogTransitionPreset;
+  duration: number;
+  easing: (t: number) => number;
+}
+
+const EASINGS: Record<
+  Exclude<DialogEasing, (t: number) => number>,
+  (t: number) => number
+> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t * t,
+  "ease-out": (t) => 1 - (1 - t) ** 3,
+  "ease-in-out": (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
+
+/**
+ * Resolve the effective transition for a dialog.
+ *
+ * Per-dialog settings take precedence over container settings.
+ * `reducedMotion` and the "none" preset both resolve to a zero duration.
+ */
+export function resolveTransition(
+  dialog: InternalDialog | undefined,
+  containerOptions: DialogContainerOptions,
+): ResolvedTransition {
+  const input = dialog?.transition ?? containerOptions.transition ?? "none";
+  const transition: DialogTransition =
+    typeof input === "string" ? { preset: input } : input;
+
+  const preset = transition.preset ?? "fade";
+  const easing = transition.easing ?? "ease-out";
+  const duration =
+    containerOptions.reducedMotion === true || preset === "none"
+      ? 0
+      : Math.max(0, transition.duration ?? DEFAULT_TRANSITION_DURATION);
+
+  return {
+    preset,
+    duration,
+    easing: typeof easing === "function" ? easing : EASINGS[easing],
+  };
+}
+
+export interface AnimateOptions {
+  from: number;
+  to: number;
+  duration: number;
+  easing: (t: number) => number;
+  onUpdate: (value: number) => void;
+  onComplete?: () => void;
+}
+
+/**
+ * Tween a value over time. Returns a function that cancels the animation.
+ *
+ * A zero duration applies the final value and completes synchronously.
+ */
+export function animate(options: AnimateOptions): () => void {
+  const { from, to, duration, easing, onUpdate, onComplete } = options;
+
+  if (duration <= 0 || from === to) {
+    onUpdate(to);
+    onComplete?.();
+    return () => {};
+  }
+
+  const start = Date.now();
+  onUpdate(from);
+
+  const handle = setInterval(() => {
+    const t = Math.min(1, (Date.now() - start) / duration);
+    onUpdate(from + (to - from) * easing(t));
+
+    if (t >= 1) {
+      clearInterval(handle);
+      onComplete?.();
+    }
+  }, TRANSITION_FRAME_INTERVAL);
+
+  return () => clearInterval(handle);
+}
@@ -60,6 +60,9 @@ export const TIME_BEFORE_UNMOUNT = 200;
  */
 export const TOAST_WIDTH = 60;
 
+/** @internal Used by React/Solid bindings for JSX portals */
+export const JSX_CONTENT_KEY = Symbol("toast-jsx-content");
+
 /**
  * Default offset from screen edges
  *
@@ -85,6 +88,7 @@ export const DEFAULT_STYLE: ToastStyle = {
   backgroundColor: "#1a1a1a",
   foregroundColor: "#ffffff",
   mutedColor: "#6b7280",
+  focusedBackgroundColor: "#262626",
 };
 
 /**
@@ -9,13 +9,19 @@
 // =============================================================================
 
 export { ToasterRenderable } from "./renderables";
-export { toast } from "./state";
+export { createToastStore, toast } from "./state";
 
 // =============================================================================
 // Types - For TypeScript users
 // =============================================================================
 
 export { TOAST_DURATION } from "./constants";
+export type {
+  /** The toast() function and its methods */
+  ToastApi,
+  /** An isolated toast store created with createToastStore() */
+  ToastStore,
+} from "./state";
 export type {
   /** Action button configuration for toasts */
   Action,
@@ -29,6 +35,12 @@ export type {
   SpinnerConfig,
   /** Stacking mode for multiple toasts */
   StackingMode,
+  /** Event passed to an action's onClick (preventDefault keeps the toast open) */
+  ToastActionEvent,
+  /** Passed to custom toast content (id and dismiss) */
+  ToastContentContext,
+  /** Factory for custom toast content, see toast.custom() */
+  ToastContentFactory,
   /** Offset configuration for toaster positioning */
   ToasterOffset,
   /** Configuration options for ToasterRenderable */
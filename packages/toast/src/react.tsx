@@ -1,10 +1,27 @@
 /** @jsxImportSource @opentui/react */
 
-import { extend } from "@opentui/react";
-import { useSyncExternalStore } from "react";
-import { ToasterRenderable } from "./renderables";
-import { ToastState } from "./state";
-import type { ToasterOptions } from "./types";
+import { createPortal, extend } from "@opentui/react";
+import {
+  type ReactNode,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { JSX_CONTENT_KEY } from "./constants";
+import { ToasterEvents, ToasterRenderable } from "./renderables";
+import {
+  toast as coreToast,
+  type ToastApi,
+  ToastState,
+  type ToastStore,
+} from "./state";
+import type {
+  ExternalToast,
+  InternalToast,
+  ToastContentContext,
+  ToasterOptions,
+} from "./types";
 
 // Add TypeScript support
 declare module "@opentui/react" {
@@ -16,15 +33,102 @@ declare module "@opentui/react" {
 // Register the toaster component
 extend({ toaster: ToasterRenderable });
 
+interface ToastWithJsx extends InternalToast {
+  [JSX_CONTENT_KEY]?: ContentFactory;
+}
+
+/**
+ * Custom toast content that returns React elements.
+ * Receives the toast id and a `dismiss` function.
+ */
+export type ContentFactory = (context: ToastContentContext) => ReactNode;
+
+/**
+ * Options for `toast.custom()` with React content
+ */
+export interface CustomToastOptions extends ExternalToast {
+  /**
+   * Store to create the toast in, defaults to the global store.
+   * Its `<Toaster store={store}>` portals the content.
+   */
+  store?: ToastStore;
+}
+
+/**
+ * The `toast()` API with a `custom` method that takes React content
+ */
+export type ReactToastApi = ((
+  ...args: Parameters<ToastApi>
+) => ReturnType<ToastApi>) &
+  Omit<ToastApi, "custom"> & {
+    custom: (
+      content: ContentFactory,
+      data?: CustomToastOptions,
+    ) => string | number;
+  };
+
 export function Toaster(props: ToasterOptions) {
-  return <toaster {...props} />;
+  const [toaster, setToaster] = useState<ToasterRenderable | null>(null);
+  const portals = useToastPortals(toaster);
+
+  return (
+    <>
+      <toaster {...props} ref={setToaster} />
+      {portals}
+    </>
+  );
+}
+
+/**
+ * Portal JSX content from `toast.custom()` into the toasts of a toaster.
+ */
+function useToastPortals(toaster: ToasterRenderable | null): ReactNode[] {
+  // Bumped whenever the toaster mounts, updates or removes a toast
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!toaster) return;
+
+    const onChange = () => setVersion((count) => count + 1);
+    toaster.on(ToasterEvents.TOAST_ADDED, onChange);
+    toaster.on(ToasterEvents.TOAST_UPDATED, onChange);
+    toaster.on(ToasterEvents.TOAST_REMOVED, onChange);
+
+    return () => {
+      toaster.off(ToasterEvents.TOAST_ADDED, onChange);
+      toaster.off(ToasterEvents.TOAST_UPDATED, onChange);
+      toaster.off(ToasterEvents.TOAST_REMOVED, onChange);
+    };
+  }, [toaster]);
+
+  return useMemo(() => {
+    // version triggers re-runs when mounted toasts change
+    void version;
+
+    const portals: ReactNode[] = [];
+    if (!toaster) return portals;
+
+    for (const toastRenderable of toaster.getToastRenderables()) {
+      const { id, [JSX_CONTENT_KEY]: content } =
+        toastRenderable.toast as ToastWithJsx;
+
+      if (content !== undefined) {
+        const dismiss = () => toastRenderable.dismiss();
+        portals.push(
+          createPortal(content({ id, dismiss }), toastRenderable, id),
+        );
+      }
+    }
+
+    return portals;
+  }, [toaster, version]);
 }
 
-export function useToasts() {
+export function useToasts(store: ToastStore = ToastState) {
   const toasts = useSyncExternalStore(
-    ToastState.subscribe,
-    ToastState.getActiveToasts,
-    ToastState.getActiveToasts,
+    store.subscribe,
+    store.getActiveToasts,
+    store.getActiveToasts,
   );
 
   return {
@@ -32,4 +136,33 @@ export function useToasts() {
   };
 }
 
-export { toast } from "./state";
+/**
+ * The `toast()` API with `toast.custom()` taking React content
+ *
+ * @example
+ * ```tsx
+ * toast.custom(({ dismiss }) => (
+ *   <box flexDirection="row" gap={1}>
+ *     <text>Uploading ▓▓▓░░ 60%</text>
+ *     <text onMouseUp={dismiss}>[Cancel]</text>
+ *   </box>
+ * ));
+ * ```
+ */
+export const toast: ReactToastApi = Object.assign(
+  (...args: Parameters<ToastApi>) => coreToast(...args),
+  { ...coreToast },
+  {
+    custom: (
+      content: ContentFactory,
+      { store = ToastState, ...data }: CustomToastOptions = {},
+    ) =>
+      store.create({
+        ...data,
+        type: "default",
+        [JSX_CONTENT_KEY]: content,
+      }),
+  },
+);
+
+export { createToastStore } from "./state";
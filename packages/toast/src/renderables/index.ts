@@ -2,4 +2,5 @@
  * Toast renderables for @opentui/core
  */
 
-export { ToasterRenderable } from "./toaster";
+export { ToastRenderable } from "./toast";
+export { ToasterEvents, ToasterRenderable } from "./toaster";
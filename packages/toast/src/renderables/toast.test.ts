@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { TextRenderable } from "@opentui/core";
+import { createTestRenderer, type TestRenderer } from "@opentui/core/testing";
+import { createToastStore, type ToastStore } from "../state";
+import type { Action, ExternalToast } from "../types";
+import type { ToastRenderable } from "./toast";
+import { ToasterRenderable } from "./toaster";
+
+let renderer: TestRenderer;
+let renderOnce: () => Promise<void>;
+let captureCharFrame: () => string;
+let store: ToastStore;
+let toaster: ToasterRenderable;
+
+/** Show a toast and return its renderable */
+const showToast = (data: ExternalToast): ToastRenderable => {
+  const id = store.toast("Upload failed", { id: "upload", ...data });
+  const renderable = toaster
+    .getToastRenderables()
+    .find((r) => r.toast.id === id);
+  if (!renderable) throw new Error(`Toast "${id}" was not mounted`);
+  return renderable;
+};
+
+beforeEach(async () => {
+  ({ renderer, renderOnce, captureCharFrame } = await createTestRenderer({
+    width: 80,
+    height: 20,
+  }));
+  store = createToastStore();
+  toaster = new ToasterRenderable(renderer, { store });
+  renderer.root.add(toaster);
+});
+
+afterEach(() => {
+  toaster.destroy();
+  renderer.destroy();
+});
+
+describe("actions", () => {
+  test("dismisses the toast after onClick", () => {
+    let clicks = 0;
+    const renderable = showToast({
+      action: { label: "Undo", onClick: () => void clicks++ },
+    });
+
+    expect(renderable.triggerAction()).toBe(true);
+    expect(clicks).toBe(1);
+    expect(renderable.isDismissed).toBe(true);
+  });
+
+  test("preventDefault keeps the toast open", () => {
+    const renderable = showToast({
+      action: { label: "Copy", onClick: (event) => event.preventDefault() },
+    });
+
+    renderable.triggerAction();
+
+    expect(renderable.isDismissed).toBe(false);
+  });
+
+  test("runs cancel before actions and renders them in that order", async () => {
+    showToast({
+      cancel: { label: "Dismiss", onClick: () => {} },
+      actions: [
+        { label: "Retry", onClick: () => {} },
+        { label: "Details", onClick: () => {} },
+      ],
+      duration: Infinity,
+    });
+    await renderOnce();
+
+    expect(captureCharFrame()).toMatch(/\[Dismiss\].*\[Retry\].*\[Details\]/);
+  });
+});
+
+describe("pending actions", () => {
+  test("hold the toast open until the promise resolves", async () => {
+    const { promise, resolve } = Promise.withResolvers<void>();
+    const renderable = showToast({
+      action: { label: "Retry", onClick: () => promise },
+      duration: 30,
+    });
+
+    renderable.triggerAction();
+    await Bun.sleep(60);
+    await renderOnce();
+
+    expect(renderable.isDismissed).toBe(false);
+    expect(captureCharFrame()).not.toContain("[Retry]");
+
+    resolve();
+    await promise;
+
+    expect(renderable.isDismissed).toBe(true);
+  });
+
+  test("ignore clicks on the pending button", () => {
+    let clicks = 0;
+    const renderable = showToast({
+      action: {
+        label: "Retry",
+        onClick: () => {
+          clicks++;
+          return new Promise<void>(() => {});
+        },
+      },
+    });
+
+    renderable.triggerAction();
+    renderable.triggerAction();
+
+    expect(clicks).toBe(1);
+  });
+
+  test("log a rejection and resume the timer", async () => {
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const { promise, reject } = Promise.withResolvers<void>();
+    const renderable = showToast({
+      action: { label: "Retry", onClick: () => promise },
+      duration: 30,
+    });
+
+    renderable.triggerAction();
+    const failure = new Error("offline");
+    reject(failure);
+    await promise.catch(() => {});
+
+    expect(renderable.isDismissed).toBe(false);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(errorSpy.mock.calls[0]).toContain(failure);
+
+    await Bun.sleep(60);
+
+    expect(renderable.isDismissed).toBe(true);
+    errorSpy.mockRestore();
+  });
+
+  test("resume the timer when the actions are replaced", async () => {
+    const pending: Action = {
+      label: "Retry",
+      onClick: () => new Promise<void>(() => {}),
+    };
+    const renderable = showToast({ action: pending, duration: 30 });
+
+    renderable.triggerAction();
+    showToast({
+      action: { label: "Retry", onClick: () => {} },
+      duration: 30,
+    });
+    await Bun.sleep(60);
+
+    expect(renderable.isDismissed).toBe(true);
+  });
+});
+
+describe("custom content", () => {
+  const showCustom = () =>
+    store.toast.custom(
+      (ctx, { id }) =>
+        new TextRenderable(ctx, { content: `Uploading ${id} 60%` }),
+      { id: "upload", duration: Infinity },
+    );
+
+  test("mounts the factory in place of the default layout", async () => {
+    showCustom();
+    await renderOnce();
+
+    expect(captureCharFrame()).toContain("Uploading upload 60%");
+  });
+
+  test("an update without content restores the default layout", async () => {
+    const id = showCustom();
+    store.toast.success("Upload complete", { id });
+    await renderOnce();
+
+    const frame = captureCharFrame();
+    expect(frame).toContain("Upload complete");
+    expect(frame).not.toContain("60%");
+  });
+});
@@ -1,28 +1,37 @@
 /**
  * ToastRenderable - A single toast notification component
  *
- * Renders a toast with icon, title, description, action button, and close button.
+ * Renders a toast with icon, title, description, action button, and close button,
+ * or with custom content from `toast.custom()`.
  */
 
 import {
   BoxRenderable,
   parseColor,
+  type Renderable,
   type RenderContext,
   TextAttributes,
   TextRenderable,
 } from "@opentui/core";
 import { resolvePadding } from "@opentui-ui/utils";
-import { TIME_BEFORE_UNMOUNT, TOAST_WIDTH } from "../constants";
+import {
+  JSX_CONTENT_KEY,
+  TIME_BEFORE_UNMOUNT,
+  TOAST_WIDTH,
+} from "../constants";
 import {
   DEFAULT_ICONS,
   getLoadingIcon,
   getSpinnerConfig,
   getTypeIcon,
 } from "../icons";
-import { ToastState } from "../state";
+import { ToastState, type ToastStore } from "../state";
 import type {
+  Action,
+  InternalToast,
   SpinnerConfig,
   Toast,
+  ToastActionEvent,
   ToastIcons,
   ToastOptions,
   ToastStyle,
@@ -44,6 +53,8 @@ export interface ToastRenderableOptions {
   closeButton?: boolean;
   /** Callback when toast should be removed from container */
   onRemove?: (toast: Toast) => void;
+  /** Store the toast belongs to (defaults to the global ToastState) */
+  store?: ToastStore;
 }
 
 /**
@@ -53,7 +64,8 @@ export interface ToastRenderableOptions {
  * - Icon (based on type, with spinner animation for loading)
  * - Title (bold text)
  * - Description (optional, muted text)
- * - Action button (optional)
+ * - Action buttons and a cancel button (optional)
+ * - Or custom content in place of all of the above
  * - Close button (optional)
  *
  * Supports:
@@ -69,6 +81,7 @@ export class ToastRenderable extends BoxRenderable {
   private _computedStyle: ToastStyle;
   private _closeButton?: boolean;
   private _onRemove?: (toast: Toast) => void;
+  private _store: ToastStore;
 
   // Timer management
   private _remainingTime: number;
@@ -76,7 +89,9 @@ export class ToastRenderable extends BoxRenderable {
   private _lastCloseTimerStartTime: number = 0;
   private _timerHandle: ReturnType<typeof setTimeout> | null = null;
   private _paused: boolean = false;
+  private _held: boolean = false;
   private _dismissed: boolean = false;
+  private _selected: boolean = false;
 
   // Spinner animation for loading toasts
   private _spinnerHandle: ReturnType<typeof setInterval> | null = null;
@@ -89,6 +104,15 @@ export class ToastRenderable extends BoxRenderable {
   private _titleText: TextRenderable | null = null;
   private _descriptionText: TextRenderable | null = null;
   private _actionsBox: BoxRenderable | null = null;
+  private _actionButtons: Array<{ action: Action; button: TextRenderable }> =
+    [];
+  private _pendingActions: Set<TextRenderable> = new Set();
+  private _closeText: TextRenderable | null = null;
+  private _customContent: Renderable | null = null;
+
+  // Collapsed stack state
+  private _stackDepth: number = 0;
+  private _expandedBorder: BoxRenderable["border"] = false;
 
   constructor(ctx: RenderContext, options: ToastRenderableOptions) {
     // Compute the merged style for this toast
@@ -141,6 +165,7 @@ export class ToastRenderable extends BoxRenderable {
     this._computedStyle = computedStyle;
     this._closeButton = options.closeButton;
     this._onRemove = options.onRemove;
+    this._store = options.store ?? ToastState;
     this._remainingTime = duration;
 
     this.setupContent();
@@ -160,6 +185,16 @@ export class ToastRenderable extends BoxRenderable {
    * Set up the toast content (icon, title, description, actions)
    */
   private setupContent(): void {
+    if ((this._toast as InternalToast)[JSX_CONTENT_KEY]) {
+      // Reconcilers take over rendering the content from here
+      return;
+    }
+
+    if (this._toast.content) {
+      this.setupCustomContent(this._toast.content);
+      return;
+    }
+
     const ctx = this.ctx;
     const toast = this._toast;
     const style = this._computedStyle;
@@ -236,44 +271,193 @@ export class ToastRenderable extends BoxRenderable {
 
     this.add(this._contentBox);
 
-    // Actions (action button)
-    if (toast.action) {
-      this._actionsBox = new BoxRenderable(ctx, {
-        id: `${this.id}-actions`,
-        flexDirection: "row",
-        gap: 1,
-        flexShrink: 0,
-        alignItems: "center",
-      });
-
-      if (toast.action && isAction(toast.action)) {
-        const actionText = new TextRenderable(ctx, {
-          id: `${this.id}-action`,
-          content: `[${toast.action.label}]`,
-          fg: style.foregroundColor,
-          onMouseUp: () => toast.action?.onClick?.(),
-        });
-        this._actionsBox.add(actionText);
-      }
-
-      this.add(this._actionsBox);
-    }
+    // Actions (cancel and action buttons)
+    this.createActions();
 
     // Close button (if enabled globally or per-toast)
     const showCloseButton = toast.closeButton ?? this._closeButton;
     if (showCloseButton && toast.dismissible !== false) {
       const closeIcon = icons === false ? "×" : icons.close;
-      const closeText = new TextRenderable(ctx, {
+      this._closeText = new TextRenderable(ctx, {
         id: `${this.id}-close`,
         content: closeIcon,
         fg: style.mutedColor,
         flexShrink: 0,
         onMouseUp: () => this.dismiss(),
       });
-      this.add(closeText);
+      this.add(this._closeText);
+    }
+  }
+
+  /**
+   * Create the cancel and action buttons after the title and description
+   */
+  private createActions(): void {
+    const toast = this._toast;
+    const style = this._computedStyle;
+    const actions = [toast.action, ...(toast.actions ?? [])].filter(isAction);
+    const cancel = isAction(toast.cancel) ? toast.cancel : undefined;
+
+    if (!cancel && actions.length === 0) return;
+
+    this._actionsBox = new BoxRenderable(this.ctx, {
+      id: `${this.id}-actions`,
+      flexDirection: "row",
+      gap: 1,
+      flexShrink: 0,
+      alignItems: "center",
+    });
+
+    if (cancel) {
+      const cancelText = new TextRenderable(this.ctx, {
+        id: `${this.id}-cancel`,
+        content: `[${cancel.label}]`,
+        fg: style.mutedColor,
+        onMouseUp: () => this.runAction(cancel, cancelText),
+      });
+      this._actionsBox.add(cancelText);
+    }
+
+    actions.forEach((action, index) => {
+      const actionText = new TextRenderable(this.ctx, {
+        id: `${this.id}-action-${index}`,
+        content: `[${action.label}]`,
+        fg: style.foregroundColor,
+        onMouseUp: () => this.runAction(action, actionText),
+      });
+      this._actionButtons.push({ action, button: actionText });
+      this._actionsBox?.add(actionText);
+    });
+
+    // Sit between the content and the close button
+    const contentIndex = this._contentBox
+      ? this.getChildren().indexOf(this._contentBox)
+      : -1;
+    this.add(this._actionsBox, contentIndex + 1);
+  }
+
+  private destroyActions(): void {
+    if (this._actionsBox) {
+      this.remove(this._actionsBox.id);
+      this._actionsBox.destroyRecursively();
+    }
+    this._actionsBox = null;
+    this._actionButtons = [];
+
+    // Pending actions hold the timer, and their settle is a no-op once the
+    // buttons are gone
+    if (this._pendingActions.size > 0) {
+      this._pendingActions.clear();
+      if (this.visible && !this._dismissed) this.resume();
+    }
+  }
+
+  /**
+   * Run an action's onClick, then dismiss the toast unless prevented.
+   * Async handlers show a loading state on the button and keep the toast
+   * open while pending.
+   */
+  private runAction(action: Action, button: TextRenderable): void {
+    if (this._dismissed || this._pendingActions.has(button)) return;
+
+    let defaultPrevented = false;
+    const event: ToastActionEvent = {
+      toast: this._toast,
+      preventDefault: () => {
+        defaultPrevented = true;
+      },
+      get defaultPrevented() {
+        return defaultPrevented;
+      },
+    };
+
+    const result = action.onClick(event);
+    if (!(result instanceof Promise)) {
+      if (!defaultPrevented) this.dismiss();
+      return;
+    }
+
+    const loadingIcon =
+      this._icons === false ? "…" : getLoadingIcon(this._icons.loading);
+    this._pendingActions.add(button);
+    this.pause();
+    button.content = `[${loadingIcon} ${action.label}]`;
+    this.requestRender();
+
+    const settle = (fulfilled: boolean) => {
+      if (!this._pendingActions.delete(button) || this._dismissed) return;
+
+      button.content = `[${action.label}]`;
+      if (fulfilled && !defaultPrevented) {
+        this.dismiss();
+      } else if (this.visible) {
+        this.resume();
+      }
+      this.requestRender();
+    };
+
+    result.then(
+      () => settle(true),
+      (error) => {
+        console.error(
+          `[@opentui-ui/toast] Action "${action.label}" failed for toast "${this._toast.id}":`,
+          error,
+        );
+        settle(false);
+      },
+    );
+  }
+
+  /**
+   * Set up custom content from `toast.custom()`
+   */
+  private setupCustomContent(content: NonNullable<Toast["content"]>): void {
+    try {
+      this._customContent = content(this.ctx, {
+        id: this._toast.id,
+        dismiss: () => this.dismiss(),
+      });
+      this.add(this._customContent);
+    } catch (error) {
+      const originalMessage =
+        error instanceof Error ? error.message : String(error);
+
+      throw new Error(
+        `[@opentui-ui/toast] Failed to create custom content for toast "${this._toast.id}": ${originalMessage}`,
+        { cause: error },
+      );
     }
   }
 
+  /**
+   * Destroy the content created by setupContent(). JSX content is left to
+   * the reconciler.
+   */
+  private destroyContent(): void {
+    this.destroyActions();
+    this.stopSpinner();
+    this._spinnerConfig = null;
+
+    for (const renderable of [
+      this._iconText,
+      this._contentBox,
+      this._closeText,
+      this._customContent,
+    ]) {
+      if (renderable) {
+        this.remove(renderable.id);
+        renderable.destroyRecursively();
+      }
+    }
+
+    this._iconText = null;
+    this._contentBox = null;
+    this._titleText = null;
+    this._descriptionText = null;
+    this._closeText = null;
+    this._customContent = null;
+  }
+
   /**
    * Start the auto-dismiss timer
    */
@@ -318,12 +502,84 @@ export class ToastRenderable extends BoxRenderable {
    * Call this when the user stops interacting with the toast
    */
   public resume(): void {
-    if (!this._paused || this._remainingTime === Infinity) return;
+    if (
+      !this._paused ||
+      this._held ||
+      this._pendingActions.size > 0 ||
+      this._remainingTime === Infinity
+    ) {
+      return;
+    }
 
     this._paused = false;
     this.startTimer();
   }
 
+  /**
+   * Keep the timer paused until released, regardless of hover
+   *
+   * Used while the toaster has keyboard focus.
+   */
+  public get held(): boolean {
+    return this._held;
+  }
+
+  public set held(value: boolean) {
+    if (value === this._held) return;
+
+    this._held = value;
+    if (value) {
+      this.pause();
+    } else if (this.visible) {
+      this.resume();
+    }
+  }
+
+  /**
+   * Whether the toast is selected with the keyboard
+   */
+  public get selected(): boolean {
+    return this._selected;
+  }
+
+  public set selected(value: boolean) {
+    if (value === this._selected) return;
+
+    this._selected = value;
+    this.applySelectionStyle();
+    this.requestRender();
+  }
+
+  private applySelectionStyle(): void {
+    const style = this._computedStyle;
+    const borderColor = this._selected
+      ? (style.focusedBorderColor ?? style.foregroundColor)
+      : style.borderColor;
+    const backgroundColor = this._selected
+      ? (style.focusedBackgroundColor ?? style.backgroundColor)
+      : style.backgroundColor;
+
+    if (borderColor) {
+      this.borderColor = borderColor;
+    }
+    if (backgroundColor) {
+      this.backgroundColor = backgroundColor;
+    }
+  }
+
+  /**
+   * Run the toast's first action, as if its button was clicked
+   *
+   * Returns whether the toast has an action.
+   */
+  public triggerAction(): boolean {
+    const first = this._actionButtons[0];
+    if (!first) return false;
+
+    this.runAction(first.action, first.button);
+    return true;
+  }
+
   /**
    * Start the spinner animation for loading toasts
    */
@@ -356,7 +612,7 @@ export class ToastRenderable extends BoxRenderable {
    * Dismiss this toast
    *
    * Triggers the onDismiss callback and schedules removal.
-   * Also notifies ToastState subscribers (e.g., React hooks) about the dismissal.
+   * Also notifies the store's subscribers (e.g., React hooks) about the dismissal.
    */
   public dismiss(): void {
     if (this._dismissed) return;
@@ -372,7 +628,7 @@ export class ToastRenderable extends BoxRenderable {
 
     this._toast.onDismiss?.(this._toast);
 
-    ToastState.dismiss(this._toast.id);
+    this._store.dismiss(this._toast.id);
 
     // Wait a bit before removing (for potential exit effects)
     setTimeout(() => {
@@ -386,6 +642,7 @@ export class ToastRenderable extends BoxRenderable {
    * Used for updating an existing toast (e.g., toast.success('done', { id: existingId }))
    */
   public updateToast(toast: Toast): void {
+    const previous = this._toast as InternalToast;
     this._toast = toast;
 
     // Recompute style for the new type
@@ -406,6 +663,26 @@ export class ToastRenderable extends BoxRenderable {
       this.customBorderChars = computedStyle.customBorderChars;
     }
 
+    // Rebuild the content when switching between the default layout and
+    // custom content, or between two content factories
+    const hasJsxContent = Boolean((toast as InternalToast)[JSX_CONTENT_KEY]);
+    if (
+      toast.content !== previous.content ||
+      hasJsxContent !== Boolean(previous[JSX_CONTENT_KEY])
+    ) {
+      this.destroyContent();
+      this.setupContent();
+    } else if (
+      !toast.content &&
+      !hasJsxContent &&
+      (toast.action !== previous.action ||
+        toast.actions !== previous.actions ||
+        toast.cancel !== previous.cancel)
+    ) {
+      this.destroyActions();
+      this.createActions();
+    }
+
     // Determine icon color
     const iconColor = computedStyle.iconColor ?? computedStyle.borderColor;
 
@@ -470,11 +747,53 @@ export class ToastRenderable extends BoxRenderable {
         this._toastOptions,
         toast.duration,
       );
-      if (this._remainingTime !== Infinity) {
+      if (this._remainingTime !== Infinity && !this._paused) {
         this.startTimer();
       }
     }
 
+    this.applySelectionStyle();
+    this.requestRender();
+  }
+
+  /**
+   * Position behind the newest toast of a collapsed stack
+   *
+   * 0 renders the toast in full. Deeper toasts render as one-row stubs,
+   * inset by their depth so the stack reads as a deck.
+   */
+  public get stackDepth(): number {
+    return this._stackDepth;
+  }
+
+  public set stackDepth(depth: number) {
+    if (depth === this._stackDepth) return;
+
+    const wasCollapsed = this._stackDepth > 0;
+    this._stackDepth = depth;
+
+    if (depth > 0) {
+      if (!wasCollapsed) {
+        this._expandedBorder = this.border;
+        // A stub shows its top edge only
+        if (this.border !== false) {
+          this.border = ["top"];
+        }
+        this.overflow = "hidden";
+        this.minHeight = 0;
+        this.height = 1;
+      }
+      this.marginLeft = depth;
+      this.marginRight = depth;
+    } else {
+      this.border = this._expandedBorder;
+      this.overflow = "visible";
+      this.minHeight = this._computedStyle.minHeight ?? 0;
+      this.height = "auto";
+      this.marginLeft = 0;
+      this.marginRight = 0;
+    }
+
     this.requestRender();
   }
 
@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { InputRenderable } from "@opentui/core";
+import {
+  createTestRenderer,
+  type MockInput,
+  type TestRenderer,
+} from "@opentui/core/testing";
+import { TIME_BEFORE_UNMOUNT } from "../constants";
+import { createToastStore, type ToastStore } from "../state";
+import type { ToasterOptions } from "../types";
+import { ToasterRenderable } from "./toaster";
+
+let renderer: TestRenderer;
+let renderOnce: () => Promise<void>;
+let captureCharFrame: () => string;
+let mockInput: MockInput;
+let store: ToastStore;
+let toaster: ToasterRenderable;
+
+const mountToaster = (options: ToasterOptions = {}) => {
+  toaster = new ToasterRenderable(renderer, {
+    store,
+    stackingMode: "stack",
+    visibleToasts: 3,
+    ...options,
+  });
+  renderer.root.add(toaster);
+  return toaster;
+};
+
+const showToasts = (count: number) => {
+  for (let i = 1; i <= count; i++) {
+    store.toast(`Toast ${i}`, { id: i, duration: Infinity });
+  }
+};
+
+const depths = () =>
+  toaster
+    .getToastRenderables()
+    .filter((renderable) => renderable.visible)
+    .map((renderable) => renderable.stackDepth);
+
+beforeEach(async () => {
+  ({ renderer, renderOnce, captureCharFrame, mockInput } =
+    await createTestRenderer({
+      width: 80,
+      height: 30,
+    }));
+  store = createToastStore();
+});
+
+afterEach(() => {
+  toaster?.destroy();
+  renderer.destroy();
+});
+
+describe("overflow", () => {
+  test("hides toasts beyond visibleToasts behind a +N more line", async () => {
+    mountToaster();
+    showToasts(5);
+    await renderOnce();
+
+    const visible = toaster
+      .getToastRenderables()
+      .map((renderable) => renderable.visible);
+
+    expect(toaster.overflowCount).toBe(2);
+    expect(visible).toEqual([false, false, true, true, true]);
+    expect(captureCharFrame()).toContain("+2 more");
+  });
+
+  test("brings the next toast back when a visible one is dismissed", async () => {
+    mountToaster();
+    showToasts(4);
+
+    store.dismiss(4);
+    await Bun.sleep(TIME_BEFORE_UNMOUNT + 20);
+    await renderOnce();
+
+    expect(toaster.overflowCount).toBe(0);
+    expect(toaster.getToastRenderables().every((r) => r.visible)).toBe(true);
+    expect(captureCharFrame()).not.toContain("more");
+  });
+
+  test("pauses the timer of overflowed toasts", async () => {
+    mountToaster({ visibleToasts: 1 });
+    store.toast("Oldest", { id: "oldest", duration: 30 });
+    store.toast("Newest", { id: "newest", duration: Infinity });
+
+    await Bun.sleep(80);
+
+    expect(store.getActiveToasts().map((t) => t.id)).toEqual([
+      "oldest",
+      "newest",
+    ]);
+  });
+});
+
+describe("collapsed stack", () => {
+  test("collapses older visible toasts into stubs behind the newest", () => {
+    mountToaster();
+    showToasts(3);
+
+    expect(depths()).toEqual([2, 1, 0]);
+  });
+
+  test("expanded shows every toast in full until collapsed again", () => {
+    mountToaster();
+    showToasts(3);
+
+    toaster.expanded = true;
+    expect(depths()).toEqual([0, 0, 0]);
+
+    toaster.expanded = false;
+    expect(depths()).toEqual([2, 1, 0]);
+  });
+
+  test("the expand option keeps the stack expanded", () => {
+    mountToaster({ expand: true });
+    showToasts(3);
+
+    expect(depths()).toEqual([0, 0, 0]);
+  });
+
+  test("expandHotkey toggles the stack", () => {
+    mountToaster({ expandHotkey: "ctrl+t" });
+    showToasts(3);
+
+    mockInput.pressKey("t");
+    expect(toaster.expanded).toBe(false);
+
+    mockInput.pressKey("t", { ctrl: true });
+    expect(toaster.expanded).toBe(true);
+    expect(depths()).toEqual([0, 0, 0]);
+
+    mockInput.pressKey("t", { ctrl: true });
+    expect(toaster.expanded).toBe(false);
+  });
+
+  test("single mode never collapses", async () => {
+    mountToaster({ stackingMode: "single" });
+    showToasts(3);
+    await Bun.sleep(TIME_BEFORE_UNMOUNT + 20);
+
+    expect(toaster.toastCount).toBe(1);
+    expect(depths()).toEqual([0]);
+    expect(toaster.overflowCount).toBe(0);
+  });
+});
+
+describe("toasterId", () => {
+  test("routes toasts to the toaster with a matching toasterId", () => {
+    const main = mountToaster({ id: "toaster" });
+    const sidebar = new ToasterRenderable(renderer, {
+      store,
+      toasterId: "sidebar",
+    });
+    renderer.root.add(sidebar);
+
+    store.toast("Saved", { id: "saved" });
+    store.toast("Synced", { id: "synced", toasterId: "sidebar" });
+
+    const ids = (target: ToasterRenderable) =>
+      target.getToastRenderables().map((r) => r.toast.id);
+    expect(ids(main)).toEqual(["saved"]);
+    expect(ids(sidebar)).toEqual(["synced"]);
+    expect(sidebar.id).not.toBe(main.id);
+
+    sidebar.destroy();
+  });
+});
+
+describe("keyboard focus", () => {
+  const selectedId = () =>
+    toaster.getToastRenderables().find((renderable) => renderable.selected)
+      ?.toast.id;
+
+  test("the hotkey selects the newest toast and Up/Down follow the screen", () => {
+    mountToaster({ expand: true, hotkey: "ctrl+y" });
+    showToasts(3);
+
+    mockInput.pressKey("y", { ctrl: true });
+    expect(toaster.focused).toBe(true);
+    // Bottom positions stack the newest toast on top
+    expect(selectedId()).toBe(3);
+
+    mockInput.pressArrow("down");
+    expect(selectedId()).toBe(2);
+    mockInput.pressArrow("down");
+    mockInput.pressArrow("down");
+    expect(selectedId()).toBe(1);
+    mockInput.pressArrow("up");
+    expect(selectedId()).toBe(2);
+
+    mockInput.pressKey("y", { ctrl: true });
+    expect(toaster.focused).toBe(false);
+    expect(selectedId()).toBeUndefined();
+  });
+
+  test("top positions put the newest toast at the bottom", () => {
+    mountToaster({ expand: true, position: "top-right" });
+    showToasts(3);
+
+    toaster.focus();
+    expect(selectedId()).toBe(3);
+
+    mockInput.pressArrow("down");
+    expect(selectedId()).toBe(3);
+    mockInput.pressArrow("up");
+    expect(selectedId()).toBe(2);
+  });
+
+  test("Enter triggers the action of the selected toast", () => {
+    let clicks = 0;
+    mountToaster();
+    store.toast("Deleted", {
+      id: "deleted",
+      duration: Infinity,
+      action: { label: "Undo", onClick: () => void clicks++ },
+    });
+
+    toaster.focus();
+    mockInput.pressEnter();
+
+    expect(clicks).toBe(1);
+  });
+
+  test("Delete and Escape dismiss the selection and select a neighbour", async () => {
+    mountToaster({ expand: true });
+    showToasts(3);
+    toaster.focus();
+
+    mockInput.pressKey("DELETE");
+    expect(selectedId()).toBe(2);
+
+    mockInput.pressArrow("down");
+    mockInput.pressEscape();
+    // A lone ESC is only parsed once no escape sequence follows
+    await Bun.sleep(50);
+
+    expect(selectedId()).toBe(2);
+    expect(
+      toaster
+        .getToastRenderables()
+        .filter((renderable) => renderable.isDismissed)
+        .map((renderable) => renderable.toast.id),
+    ).toEqual([1, 3]);
+  });
+
+  test("returns focus when the last toast leaves", async () => {
+    const input = new InputRenderable(renderer, {});
+    renderer.root.add(input);
+    input.focus();
+    mountToaster();
+    showToasts(1);
+
+    toaster.focus();
+    expect(input.focused).toBe(false);
+
+    store.dismiss(1);
+    await Bun.sleep(TIME_BEFORE_UNMOUNT + 20);
+
+    expect(toaster.focused).toBe(false);
+    expect(input.focused).toBe(true);
+    input.destroy();
+  });
+
+  test("holds the timers while focused", async () => {
+    mountToaster();
+    store.toast("Saved", { id: "saved", duration: 30 });
+    const [saved] = toaster.getToastRenderables();
+
+    toaster.focus();
+    await Bun.sleep(80);
+    expect(saved?.isDismissed).toBe(false);
+
+    toaster.blur();
+    await Bun.sleep(80);
+    expect(saved?.isDismissed).toBe(true);
+  });
+});
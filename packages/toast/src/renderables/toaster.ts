@@ -1,14 +1,21 @@
 /**
  * ToasterRenderable - Container for toast notifications
  *
- * Manages the display of multiple toasts, subscribes to ToastState,
+ * Manages the display of multiple toasts, subscribes to a toast store,
  * and handles positioning, stacking, and removal.
  */
 
-import { BoxRenderable, type RenderContext } from "@opentui/core";
-
-import { TOAST_WIDTH } from "../constants";
-import { ToastState } from "../state";
+import {
+  BoxRenderable,
+  type KeyEvent,
+  type Renderable,
+  type RenderContext,
+  TextRenderable,
+} from "@opentui/core";
+import { createKeyMatcher, type KeyMatcher } from "@opentui-ui/utils";
+
+import { DEFAULT_STYLE, TOAST_WIDTH } from "../constants";
+import { ToastState, type ToastStore } from "../state";
 import type {
   Position,
   StackingMode,
@@ -22,15 +29,30 @@ import type {
 import { getPositionStyles, isCenteredPosition, isTopPosition } from "../utils";
 import { ToastRenderable } from "./toast";
 
+/**
+ * Events emitted by ToasterRenderable, each with the toast id.
+ * Used by the React/Solid bindings to portal JSX content into toasts.
+ */
+export enum ToasterEvents {
+  /** A toast renderable was added to the toaster */
+  TOAST_ADDED = "toast-added",
+  /** A mounted toast received new data */
+  TOAST_UPDATED = "toast-updated",
+  /** A toast renderable has left the tree */
+  TOAST_REMOVED = "toast-removed",
+}
+
 /**
  * ToasterRenderable - Container for toast notifications
  *
  * Features:
- * - Subscribes to ToastState for automatic toast management
+ * - Subscribes to ToastState (or an isolated store) for automatic toast management
+ * - Renders only the toasts targeted at its `id`
  * - Supports 6 position variants (top/bottom + left/center/right)
  * - Single or stack mode for multiple toasts
- * - Configurable visible toast limit in stack mode
- * - Automatic oldest toast removal when limit exceeded
+ * - Collapsed stack that expands on hover or a hotkey
+ * - Keyboard focus via `hotkey` to select, trigger and dismiss toasts
+ * - Configurable visible toast limit in stack mode, with a "+N more" overflow
  *
  * @example
  * ```ts
@@ -51,6 +73,8 @@ import { ToastRenderable } from "./toast";
  *   position: 'top-right',
  *   stackingMode: 'stack',
  *   visibleToasts: 5,
+ *   expandHotkey: 'ctrl+t',
+ *   hotkey: 'alt+t',
  *   closeButton: true,
  *   gap: 1,
  *   toastOptions: {
@@ -72,23 +96,51 @@ import { ToastRenderable } from "./toast";
  *   position: 'bottom-center',
  * });
  * ```
+ *
+ * @example
+ * ```ts
+ * // A second toaster for toasts targeted at it
+ * const sidebar = new ToasterRenderable(ctx, {
+ *   toasterId: 'sidebar',
+ *   position: 'top-left',
+ * });
+ * ctx.root.add(sidebar);
+ *
+ * toast('Synced', { toasterId: 'sidebar' });
+ * ```
  */
 export class ToasterRenderable extends BoxRenderable {
   private _options: ToasterOptions = {};
   private _toastRenderables: Map<string | number, ToastRenderable> = new Map();
   private _unsubscribe: (() => void) | null = null;
+  private _expanded: boolean = false;
+  private _overflowText: TextRenderable | null = null;
+  private _selectedId: string | number | null = null;
+  private _savedFocus: Renderable | null = null;
+  private _hotkeyMatcher: KeyMatcher | null = null;
+  private _expandHotkeyMatcher: KeyMatcher | null = null;
 
   constructor(ctx: RenderContext, options: ToasterOptions = {}) {
     super(ctx, {
-      id: "toaster",
+      id: options.id,
       flexDirection: "column",
       gap: 1,
       zIndex: 9999,
+      onMouseOver: () => {
+        this.expanded = true;
+      },
+      onMouseOut: () => {
+        this.expanded = false;
+      },
     });
 
     this._options = options;
     this.applyLayoutOptions();
     this.subscribe();
+    this.hotkey = options.hotkey;
+    this.expandHotkey = options.expandHotkey;
+
+    this.ctx.keyInput.on("keypress", this.handleHotkey);
   }
 
   /**
@@ -101,7 +153,7 @@ export class ToasterRenderable extends BoxRenderable {
     const isCentered = isCenteredPosition(toastPosition);
 
     Object.assign(this, positionStyles);
-    super.gap = this._options.gap ?? 1;
+    this.applyGap();
     if (!isCentered) {
       super.maxWidth = this._options.maxWidth ?? TOAST_WIDTH;
     }
@@ -137,11 +189,12 @@ export class ToasterRenderable extends BoxRenderable {
 
   public override set gap(value: number) {
     this._options.gap = value;
-    super.gap = value;
+    this.applyGap();
   }
 
   public set visibleToasts(value: number) {
     this._options.visibleToasts = value;
+    this.layoutStack();
   }
 
   public set closeButton(value: boolean) {
@@ -154,6 +207,26 @@ export class ToasterRenderable extends BoxRenderable {
 
   public set stackingMode(value: StackingMode) {
     this._options.stackingMode = value;
+    this.layoutStack();
+  }
+
+  public set expand(value: boolean) {
+    this._options.expand = value;
+    this.layoutStack();
+  }
+
+  public set expandHotkey(value: string | undefined) {
+    this._options.expandHotkey = value;
+    this._expandHotkeyMatcher = value
+      ? createKeyMatcher(value, "@opentui-ui/toast")
+      : null;
+  }
+
+  public set hotkey(value: string | undefined) {
+    this._options.hotkey = value;
+    this._hotkeyMatcher = value
+      ? createKeyMatcher(value, "@opentui-ui/toast")
+      : null;
   }
 
   public override set maxWidth(value: number) {
@@ -165,19 +238,48 @@ export class ToasterRenderable extends BoxRenderable {
     this._options.toastOptions = value;
   }
 
+  public set toasterId(value: string | undefined) {
+    if (value === this._options.toasterId) return;
+    this._options.toasterId = value;
+    this.clearToasts();
+  }
+
+  public set store(value: ToastStore | undefined) {
+    if (value === this._options.store) return;
+    this._options.store = value;
+    this.clearToasts();
+    this.subscribe();
+  }
+
+  /**
+   * The store this toaster renders toasts from
+   */
+  private get toastStore(): ToastStore {
+    return this._options.store ?? ToastState;
+  }
+
   /**
    * Subscribe to toast state changes
    */
   private subscribe(): void {
-    this._unsubscribe = ToastState.subscribe((toast) => {
+    this._unsubscribe?.();
+    this._unsubscribe = this.toastStore.subscribe((toast) => {
       if ("dismiss" in toast && (toast as ToastToDismiss).dismiss) {
         this.removeToast((toast as ToastToDismiss).id);
-      } else {
+      } else if (this.isTargetOf(toast as Toast)) {
         this.addOrUpdateToast(toast as Toast);
       }
     });
   }
 
+  /**
+   * Whether a toast is meant for this toaster - toasts without a
+   * `toasterId` go to toasters without one
+   */
+  private isTargetOf(toast: Toast): boolean {
+    return toast.toasterId === this._options.toasterId;
+  }
+
   /**
    * Add a new toast or update an existing one
    */
@@ -187,32 +289,16 @@ export class ToasterRenderable extends BoxRenderable {
     if (existing) {
       // Update existing toast
       existing.updateToast(toast);
+      this.emit(ToasterEvents.TOAST_UPDATED, toast.id);
       return;
     }
 
-    // Handle stacking mode
-    const stackingMode = this._options.stackingMode ?? "single";
-    if (stackingMode === "single") {
-      // Dismiss all existing toasts
+    // Single mode - dismiss all existing toasts. Stack mode keeps toasts
+    // beyond visibleToasts in the overflow, see layoutStack()
+    if (!this.isStacked) {
       for (const [id] of this._toastRenderables) {
         this.removeToast(id);
       }
-    } else {
-      // Stack mode - limit visible toasts
-      const maxVisible = this._options.visibleToasts ?? 3;
-      const currentCount = this._toastRenderables.size;
-
-      if (currentCount >= maxVisible) {
-        // Remove oldest toast(s)
-        const toRemove = currentCount - maxVisible + 1;
-        const ids = Array.from(this._toastRenderables.keys());
-        for (let i = 0; i < toRemove; i++) {
-          const id = ids[i];
-          if (id !== undefined) {
-            this.removeToast(id);
-          }
-        }
-      }
     }
 
     // Create new toast renderable with cascading styles
@@ -221,8 +307,10 @@ export class ToasterRenderable extends BoxRenderable {
       icons: this._options.icons,
       toastOptions: this._options.toastOptions,
       closeButton: this._options.closeButton,
+      store: this.toastStore,
       onRemove: (t) => this.handleToastRemoved(t),
     });
+    toastRenderable.held = this.focused;
 
     this._toastRenderables.set(toast.id, toastRenderable);
 
@@ -236,6 +324,8 @@ export class ToasterRenderable extends BoxRenderable {
       this.add(toastRenderable, 0);
     }
 
+    this.layoutStack();
+    this.emit(ToasterEvents.TOAST_ADDED, toast.id);
     this.requestRender();
   }
 
@@ -258,12 +348,307 @@ export class ToasterRenderable extends BoxRenderable {
       this._toastRenderables.delete(toast.id);
       this.remove(renderable.id);
       renderable.destroy();
+      this.layoutStack();
+      if (this.focused) {
+        this.reselect();
+      }
+      this.emit(ToasterEvents.TOAST_REMOVED, toast.id);
       this.requestRender();
     }
   }
 
+  private get isStacked(): boolean {
+    return this._options.stackingMode === "stack";
+  }
+
+  /**
+   * Whether the stack is collapsed into stubs behind the newest toast
+   */
+  private get isCollapsed(): boolean {
+    return (
+      this.isStacked &&
+      !this._options.expand &&
+      !this._expanded &&
+      !this.focused
+    );
+  }
+
+  /**
+   * Collapsed stacks pack their stubs without a gap
+   */
+  private applyGap(): void {
+    super.gap = this.isCollapsed ? 0 : (this._options.gap ?? 1);
+  }
+
+  /**
+   * Lay out stack mode: hide toasts beyond visibleToasts in the overflow,
+   * and collapse the older visible toasts into stubs unless expanded
+   */
+  private layoutStack(): void {
+    const renderables = this.getToastRenderables();
+    const maxVisible = this.isStacked
+      ? Math.max(1, this._options.visibleToasts ?? 3)
+      : renderables.length;
+    const overflowCount = Math.max(0, renderables.length - maxVisible);
+    const collapsed = this.isCollapsed;
+
+    renderables.forEach((renderable, index) => {
+      const isVisible = index >= overflowCount;
+
+      // Overflowed toasts keep their remaining time until they come back
+      if (isVisible && !renderable.visible) {
+        renderable.visible = true;
+        renderable.resume();
+      } else if (!isVisible && renderable.visible) {
+        renderable.visible = false;
+        renderable.pause();
+      }
+
+      renderable.stackDepth =
+        isVisible && collapsed ? renderables.length - 1 - index : 0;
+    });
+
+    this.updateOverflowText(overflowCount);
+    this.applyGap();
+    this.requestRender();
+  }
+
+  /**
+   * Show the "+N more" line at the older end of the stack
+   */
+  private updateOverflowText(count: number): void {
+    if (count === 0) {
+      if (this._overflowText) {
+        this.remove(this._overflowText.id);
+        this._overflowText.destroy();
+        this._overflowText = null;
+      }
+      return;
+    }
+
+    if (!this._overflowText) {
+      this._overflowText = new TextRenderable(this.ctx, {
+        id: `${this.id}-overflow`,
+        fg:
+          this._options.toastOptions?.style?.mutedColor ??
+          DEFAULT_STYLE.mutedColor,
+        flexShrink: 0,
+      });
+    } else {
+      this.remove(this._overflowText.id);
+    }
+
+    this._overflowText.content = `+${count} more`;
+
+    // Older toasts sit at the start of the column for top positions and at
+    // the end for bottom positions
+    const position = this._options.position ?? "bottom-right";
+    if (isTopPosition(position)) {
+      this.add(this._overflowText, 0);
+    } else {
+      this.add(this._overflowText);
+    }
+  }
+
+  private handleHotkey = (key: KeyEvent): void => {
+    if (this._hotkeyMatcher?.(key)) {
+      key.preventDefault();
+      if (this.focused) {
+        this.returnFocus();
+      } else {
+        this.focus();
+      }
+      return;
+    }
+
+    if (this.isStacked && this._expandHotkeyMatcher?.(key)) {
+      key.preventDefault();
+      this.expanded = !this._expanded;
+    }
+  };
+
+  /**
+   * Take keyboard focus: pause all timers and select the newest toast.
+   * Does nothing while there are no toasts to select.
+   *
+   * @example
+   * ```ts
+   * // Let the user act on toasts without a mouse
+   * toaster.focus();
+   * ```
+   */
+  public override focus(): void {
+    if (this.focused || this.getSelectableToasts().length === 0) return;
+
+    const previous = this.ctx.currentFocusedRenderable;
+
+    // Only focusable while focused, so clicks don't move focus here
+    this._focusable = true;
+    super.focus();
+    this._savedFocus = previous;
+
+    for (const renderable of this._toastRenderables.values()) {
+      renderable.held = true;
+    }
+
+    this.layoutStack();
+    this.select(this.getNewestSelectableToast());
+  }
+
+  public override blur(): void {
+    if (!this.focused) return;
+
+    super.blur();
+    this._focusable = false;
+
+    this.select(null);
+    for (const renderable of this._toastRenderables.values()) {
+      renderable.held = false;
+    }
+
+    this.layoutStack();
+  }
+
   /**
-   * Get the current number of visible toasts
+   * Leave keyboard focus and refocus whatever had it before
+   */
+  private returnFocus(): void {
+    const saved = this._savedFocus;
+    this._savedFocus = null;
+    this.blur();
+
+    if (saved && !saved.isDestroyed) {
+      saved.focus();
+    }
+  }
+
+  public override handleKeyPress(key: KeyEvent): boolean {
+    const selected = this.getSelectedToast();
+
+    switch (key.name) {
+      case "up":
+        return this.moveSelection(-1);
+      case "down":
+        return this.moveSelection(1);
+      case "return":
+        return selected?.triggerAction() ?? false;
+      case "delete":
+      case "escape":
+        if (!selected || selected.toast.dismissible === false) return false;
+        // Select a neighbour before the toast leaves
+        if (!this.moveSelection(1)) {
+          this.moveSelection(-1);
+        }
+        selected.dismiss();
+        if (this.getSelectableToasts().length === 0) {
+          this.returnFocus();
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Visible toasts in on-screen order, top to bottom
+   */
+  private getSelectableToasts(): ToastRenderable[] {
+    return this.getChildren().filter(
+      (child): child is ToastRenderable =>
+        child instanceof ToastRenderable && child.visible && !child.isDismissed,
+    );
+  }
+
+  private getNewestSelectableToast(): ToastRenderable | null {
+    const toasts = this.getSelectableToasts();
+    const position = this._options.position ?? "bottom-right";
+    return (isTopPosition(position) ? toasts.at(-1) : toasts[0]) ?? null;
+  }
+
+  private getSelectedToast(): ToastRenderable | null {
+    if (this._selectedId === null) return null;
+    return this._toastRenderables.get(this._selectedId) ?? null;
+  }
+
+  private select(toast: ToastRenderable | null): void {
+    const previous = this.getSelectedToast();
+    if (previous) {
+      previous.selected = false;
+    }
+
+    this._selectedId = toast?.toast.id ?? null;
+    if (toast) {
+      toast.selected = true;
+    }
+  }
+
+  /**
+   * Move the selection up (-1) or down (1). Returns whether it moved.
+   */
+  private moveSelection(step: number): boolean {
+    const toasts = this.getSelectableToasts();
+    const selected = this.getSelectedToast();
+    const index = selected ? toasts.indexOf(selected) : -1;
+    const next = toasts[index + step];
+    if (index === -1 || !next) return false;
+
+    this.select(next);
+    return true;
+  }
+
+  /**
+   * Keep a selection while focused, after the selected toast left
+   */
+  private reselect(): void {
+    const selected = this.getSelectedToast();
+    if (selected && !selected.isDismissed) return;
+
+    const next = this.getNewestSelectableToast();
+    if (next) {
+      this.select(next);
+    } else {
+      this.returnFocus();
+    }
+  }
+
+  /**
+   * Whether the collapsed stack is expanded, by hover, `expandHotkey` or
+   * programmatically. Toasters with `expand: true` are always expanded.
+   *
+   * @example
+   * ```ts
+   * // Show every toast in full while the user reviews them
+   * toaster.expanded = true;
+   * ```
+   */
+  public get expanded(): boolean {
+    return this._expanded;
+  }
+
+  public set expanded(value: boolean) {
+    if (value === this._expanded) return;
+    this._expanded = value;
+    this.layoutStack();
+  }
+
+  /**
+   * Get the number of toasts waiting in the overflow
+   */
+  public get overflowCount(): number {
+    if (!this.isStacked) return 0;
+    const maxVisible = Math.max(1, this._options.visibleToasts ?? 3);
+    return Math.max(0, this._toastRenderables.size - maxVisible);
+  }
+
+  /**
+   * Get the mounted toast renderables, oldest first
+   */
+  public getToastRenderables(): ToastRenderable[] {
+    return Array.from(this._toastRenderables.values());
+  }
+
+  /**
+   * Get the current number of toasts, including those in the overflow
    *
    * @example
    * ```ts
@@ -292,15 +677,31 @@ export class ToasterRenderable extends BoxRenderable {
   }
 
   /**
-   * Clean up on destroy
+   * Destroy all toast renderables without going through their dismissal
    */
-  public override destroy(): void {
-    this._unsubscribe?.();
+  private clearToasts(): void {
+    const renderables = Array.from(this._toastRenderables);
+    this._toastRenderables.clear();
 
-    for (const [, renderable] of this._toastRenderables) {
+    for (const [id, renderable] of renderables) {
+      this.remove(renderable.id);
       renderable.destroy();
+      this.emit(ToasterEvents.TOAST_REMOVED, id);
     }
-    this._toastRenderables.clear();
+
+    this.updateOverflowText(0);
+  }
+
+  /**
+   * Clean up on destroy
+   */
+  public override destroy(): void {
+    this.ctx.keyInput.off("keypress", this.handleHotkey);
+    this._savedFocus = null;
+    this.blur();
+    this._unsubscribe?.();
+    this._unsubscribe = null;
+    this.clearToasts();
 
     super.destroy();
   }
@@ -1,10 +1,32 @@
 /** @jsxImportSource @opentui/solid */
 
-import { createElement, extend, spread } from "@opentui/solid";
-import { createSignal, onCleanup } from "solid-js";
-import { ToasterRenderable } from "./renderables";
-import { ToastState } from "./state";
-import type { Toast, ToasterOptions } from "./types";
+import {
+  createComponent,
+  createElement,
+  extend,
+  Portal,
+  spread,
+} from "@opentui/solid";
+import { createMemo, createSignal, For, type JSX, onCleanup } from "solid-js";
+import { JSX_CONTENT_KEY } from "./constants";
+import {
+  ToasterEvents,
+  ToasterRenderable,
+  type ToastRenderable,
+} from "./renderables";
+import {
+  toast as coreToast,
+  type ToastApi,
+  ToastState,
+  type ToastStore,
+} from "./state";
+import type {
+  ExternalToast,
+  InternalToast,
+  Toast,
+  ToastContentContext,
+  ToasterOptions,
+} from "./types";
 
 // Add TypeScript support
 declare module "@opentui/solid" {
@@ -16,19 +38,99 @@ declare module "@opentui/solid" {
 // Register the toaster component
 extend({ toaster: ToasterRenderable });
 
+interface ToastWithJsx extends InternalToast {
+  [JSX_CONTENT_KEY]?: ContentFactory;
+}
+
+/**
+ * Custom toast content that returns Solid elements.
+ * Receives the toast id and a `dismiss` function.
+ */
+export type ContentFactory = (context: ToastContentContext) => JSX.Element;
+
+/**
+ * Options for `toast.custom()` with Solid content
+ */
+export interface CustomToastOptions extends ExternalToast {
+  /**
+   * Store to create the toast in, defaults to the global store.
+   * Its `<Toaster store={store}>` portals the content.
+   */
+  store?: ToastStore;
+}
+
+/**
+ * The `toast()` API with a `custom` method that takes Solid content
+ */
+export type SolidToastApi = ((
+  ...args: Parameters<ToastApi>
+) => ReturnType<ToastApi>) &
+  Omit<ToastApi, "custom"> & {
+    custom: (
+      content: ContentFactory,
+      data?: CustomToastOptions,
+    ) => string | number;
+  };
+
 export function Toaster(props: ToasterOptions) {
-  const el = createElement("toaster");
+  const el = createElement("toaster") as ToasterRenderable;
   spread(el, props);
-  return el;
+
+  return [el, createToastPortals(el)];
 }
 
-export function useToasts() {
-  const [toasts, setToasts] = createSignal<Toast[]>(
-    ToastState.getActiveToasts(),
-  );
+/**
+ * Portal JSX content from `toast.custom()` into the toasts of a toaster.
+ */
+function createToastPortals(toaster: ToasterRenderable): JSX.Element {
+  // Bumped whenever the toaster mounts, updates or removes a toast
+  const [version, setVersion] = createSignal(0);
+  const onChange = () => setVersion((count) => count + 1);
 
-  const unsubscribe = ToastState.subscribe(() => {
-    setToasts(ToastState.getActiveToasts());
+  toaster.on(ToasterEvents.TOAST_ADDED, onChange);
+  toaster.on(ToasterEvents.TOAST_UPDATED, onChange);
+  toaster.on(ToasterEvents.TOAST_REMOVED, onChange);
+
+  onCleanup(() => {
+    toaster.off(ToasterEvents.TOAST_ADDED, onChange);
+    toaster.off(ToasterEvents.TOAST_UPDATED, onChange);
+    toaster.off(ToasterEvents.TOAST_REMOVED, onChange);
+  });
+
+  const getContent = (toastRenderable: ToastRenderable) =>
+    (toastRenderable.toast as ToastWithJsx)[JSX_CONTENT_KEY];
+
+  // Toast renderables are stable, so <For> keeps each portal mounted
+  // across updates to its toast
+  return createComponent(For, {
+    get each() {
+      version();
+      return toaster
+        .getToastRenderables()
+        .filter((toastRenderable) => getContent(toastRenderable));
+    },
+    children: (toastRenderable: ToastRenderable) => {
+      const content = createMemo(() => {
+        version();
+        return getContent(toastRenderable);
+      });
+      const dismiss = () => toastRenderable.dismiss();
+
+      return createComponent(Portal, {
+        mount: toastRenderable,
+        get children() {
+          return content()?.({ id: toastRenderable.toast.id, dismiss });
+        },
+      });
+    },
+  });
+}
+
+export function useToasts(store: ToastStore = ToastState) {
+  const [toasts, setToasts] = createSignal<Toast[]>(store.getActiveToasts());
+
+  const unsubscribe = store.subscribe(() => {
+    setToasts(store.getActiveToasts());
   });
 
   onCleanup(unsubscribe);
@@ -36,4 +138,33 @@ export function useToasts() {
   return toasts;
 }
 
-export { toast } from "./state";
+/**
+ * The `toast()` API with `toast.custom()` taking Solid content
+ *
+ * @example
+ * ```tsx
+ * toast.custom(({ dismiss }) => (
+ *   <box flexDirection="row" gap={1}>
+ *     <text>Uploading ▓▓▓░░ 60%</text>
+ *     <text onMouseUp={dismiss}>[Cancel]</text>
+ *   </box>
+ * ));
+ * ```
+ */
+export const toast: SolidToastApi = Object.assign(
+  (...args: Parameters<ToastApi>) => coreToast(...args),
+  { ...coreToast },
+  {
+    custom: (
+      content: ContentFactory,
+      { store = ToastState, ...data }: CustomToastOptions = {},
+    ) =>
+      store.create({
+        ...data,
+        type: "default",
+        [JSX_CONTENT_KEY]: content,
+      }),
+  },
+);
+
+export { createToastStore } from "./state";
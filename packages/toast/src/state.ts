@@ -1,9 +1,12 @@
+import { JSX_CONTENT_KEY } from "./constants";
 import type {
   ExternalToast,
+  InternalToast,
   PromiseData,
   PromiseExtendedResult,
   PromiseT,
   Toast,
+  ToastContentFactory,
   ToastToDismiss,
   ToastType,
 } from "./types";
@@ -27,10 +30,13 @@ function isHttpResponse(data: unknown): data is Response {
 }
 
 /**
- * Observer class implementing the pub/sub pattern for toast state management.
+ * Toast state implementing the pub/sub pattern.
  * This is the core of the Sonner-compatible API.
+ *
+ * The global `toast()` API uses a shared store. Create isolated stores with
+ * `createToastStore()` and pass them to a toaster's `store` option.
  */
-class Observer {
+export class ToastStore {
   subscribers: Array<(toast: Toast | ToastToDismiss) => void> = [];
   toasts: Toast[] = [];
   dismissedToasts: Set<string | number> = new Set();
@@ -89,10 +95,12 @@ class Observer {
    * Create a toast (internal method)
    */
   create = (
-    data: ExternalToast & {
-      message?: TitleT;
-      type?: ToastType;
-    },
+    data: ExternalToast &
+      Omit<InternalToast, keyof Toast> & {
+        message?: TitleT;
+        type?: ToastType;
+        content?: ToastContentFactory;
+      },
   ): string | number => {
     const { message, ...rest } = data;
     const id =
@@ -110,13 +118,19 @@ class Observer {
     }
 
     if (alreadyExists) {
-      // Update existing toast
+      // Update existing toast - custom content only survives updates that
+      // pass it again, so toast.success(..., { id }) restores the default layout
+      const content = {
+        content: data.content,
+        [JSX_CONTENT_KEY]: data[JSX_CONTENT_KEY],
+      };
       this.toasts = this.toasts.map((toast) => {
         if (toast.id === id) {
-          this.publish({ ...toast, ...data, id, title: message });
+          this.publish({ ...toast, ...data, ...content, id, title: message });
           return {
             ...toast,
             ...data,
+            ...content,
             id,
             dismissible,
             title: message,
@@ -260,6 +274,30 @@ class Observer {
     return this.create({ ...data, message, type: "loading" });
   };
 
+  /**
+   * Create a toast with custom content
+   *
+   * The factory replaces the icon, title, description and action; the toast
+   * keeps its box style, duration and dismissal. Pass `id` to replace the
+   * content of an existing toast.
+   *
+   * @example
+   * ```ts
+   * toast.custom((ctx, { dismiss }) => {
+   *   const row = new BoxRenderable(ctx, { flexDirection: 'row', gap: 1 });
+   *   row.add(new TextRenderable(ctx, { content: 'Uploading ▓▓▓░░ 60%' }));
+   *   row.add(new TextRenderable(ctx, { content: '[Cancel]', onMouseUp: dismiss }));
+   *   return row;
+   * }, { duration: Infinity });
+   * ```
+   */
+  custom = (
+    content: ToastContentFactory,
+    data?: ExternalToast,
+  ): string | number => {
+    return this.create({ ...data, content, type: "default" });
+  };
+
   /**
    * Create a promise toast that auto-updates based on promise state
    *
@@ -444,42 +482,99 @@ class Observer {
   getActiveToasts = (): Toast[] => {
     return this._activeToasts;
   };
+
+  /**
+   * The `toast()` API bound to this store
+   *
+   * @example
+   * ```ts
+   * const store = createToastStore();
+   * store.toast.success('Only toasters using this store show this');
+   * ```
+   */
+  readonly toast: ToastApi = createToastApi(this);
 }
 
 /**
- * Global toast state singleton
+ * Build the `toast()` API - a function with methods attached - on a store
  */
-export const ToastState = new Observer();
+function createToastApi(store: ToastStore) {
+  /**
+   * Basic toast function - delegates to store.message() for consistent behavior
+   */
+  const toastFunction = (
+    message: TitleT,
+    data?: ExternalToast,
+  ): string | number => store.message(message, data);
+
+  /**
+   * Get toast history (all toasts ever created, including dismissed)
+   *
+   * @example
+   * ```ts
+   * const history = toast.getHistory();
+   * console.log(`Total toasts shown: ${history.length}`);
+   * ```
+   */
+  const getHistory = () => store.toasts;
+
+  /**
+   * Get currently active (visible) toasts
+   *
+   * @example
+   * ```ts
+   * const active = toast.getToasts();
+   * console.log(`Currently showing ${active.length} toasts`);
+   * ```
+   */
+  const getToasts = () => store.getActiveToasts();
+
+  return Object.assign(
+    toastFunction,
+    {
+      success: store.success,
+      info: store.info,
+      warning: store.warning,
+      error: store.error,
+      message: store.message,
+      promise: store.promise,
+      dismiss: store.dismiss,
+      loading: store.loading,
+      custom: store.custom,
+    },
+    { getHistory, getToasts },
+  );
+}
 
 /**
- * Basic toast function - delegates to ToastState.message() for consistent behavior
+ * The `toast()` function and its methods
  */
-const toastFunction = (
-  message: TitleT,
-  data?: ExternalToast,
-): string | number => ToastState.message(message, data);
+export type ToastApi = ReturnType<typeof createToastApi>;
 
 /**
- * Get toast history (all toasts ever created, including dismissed)
- *
- * @example
- * ```ts
- * const history = toast.getHistory();
- * console.log(`Total toasts shown: ${history.length}`);
- * ```
+ * Global toast state singleton
  */
-const getHistory = () => ToastState.toasts;
+export const ToastState = new ToastStore();
 
 /**
- * Get currently active (visible) toasts
+ * Create an isolated toast store
+ *
+ * Toasts created through its `toast` API are only rendered by toasters
+ * created with this store, which keeps tests and embedded sub-apps from
+ * sharing toasts with the rest of the app.
  *
  * @example
  * ```ts
- * const active = toast.getToasts();
- * console.log(`Currently showing ${active.length} toasts`);
+ * const store = createToastStore();
+ * const toaster = new ToasterRenderable(ctx, { store });
+ * ctx.root.add(toaster);
+ *
+ * store.toast.success('Saved');
  * ```
  */
-const getToasts = () => ToastState.getActiveToasts();
+export function createToastStore(): ToastStore {
+  return new ToastStore();
+}
 
 /**
  * The main toast API - a function with methods attached
@@ -507,19 +602,12 @@ const getToasts = () => ToastState.getActiveToasts();
  * const id = toast('Hello');
  * toast.dismiss(id);
  * toast.dismiss(); // dismiss all
+ *
+ * // Custom content
+ * toast.custom((ctx) => new TextRenderable(ctx, { content: 'Hi' }));
+ *
+ * // Target a toaster created with `toasterId: 'sidebar'`
+ * toast('Synced', { toasterId: 'sidebar' });
  * ```
  */
-export const toast = Object.assign(
-  toastFunction,
-  {
-    success: ToastState.success,
-    info: ToastState.info,
-    warning: ToastState.warning,
-    error: ToastState.error,
-    message: ToastState.message,
-    promise: ToastState.promise,
-    dismiss: ToastState.dismiss,
-    loading: ToastState.loading,
-  },
-  { getHistory, getToasts },
-);
+export const toast: ToastApi = ToastState.toast;
@@ -64,6 +64,7 @@ export const minimal: ToasterTheme = {
       backgroundColor: "#262626",
       foregroundColor: "#e5e5e5",
       mutedColor: "#737373",
+      focusedBackgroundColor: "#404040",
       paddingX: 2,
       paddingY: 1,
     },
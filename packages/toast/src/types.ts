@@ -1,4 +1,12 @@
-import type { BorderCharacters, BorderSides, BorderStyle } from "@opentui/core";
+import type {
+  BorderCharacters,
+  BorderSides,
+  BorderStyle,
+  Renderable,
+  RenderContext,
+} from "@opentui/core";
+import { JSX_CONTENT_KEY } from "./constants";
+import type { ToastStore } from "./state";
 
 /**
  * Toast notification types
@@ -27,12 +35,46 @@ export type Position =
  */
 export type StackingMode = "single" | "stack";
 
+/**
+ * Passed to an action's `onClick`
+ */
+export interface ToastActionEvent {
+  /** The toast the action belongs to */
+  toast: Toast;
+  /** Keep the toast open after the action */
+  preventDefault: () => void;
+  /** Whether `preventDefault()` was called */
+  readonly defaultPrevented: boolean;
+}
+
 /**
  * Action button configuration
+ *
+ * Clicking the button calls `onClick` and then dismisses the toast, unless
+ * `onClick` calls `event.preventDefault()`. While a returned promise is
+ * pending the button shows a loading state; the toast is dismissed once it
+ * resolves and stays open if it rejects, logging the error.
+ *
+ * @example
+ * ```ts
+ * toast('Upload failed', {
+ *   actions: [
+ *     { label: 'Retry', onClick: () => upload() },
+ *     {
+ *       label: 'Details',
+ *       onClick: (event) => {
+ *         event.preventDefault();
+ *         showDetails();
+ *       },
+ *     },
+ *   ],
+ *   cancel: { label: 'Dismiss', onClick: () => {} },
+ * });
+ * ```
  */
 export interface Action {
   label: string;
-  onClick: () => void;
+  onClick: (event: ToastActionEvent) => void | Promise<void>;
 }
 
 /**
@@ -138,6 +180,17 @@ export interface ToastStyle {
    * Icon color override (defaults to borderColor)
    */
   iconColor?: string;
+
+  /**
+   * Border color while the toast is selected with the keyboard
+   * (defaults to foregroundColor)
+   */
+  focusedBorderColor?: string;
+
+  /**
+   * Background color while the toast is selected with the keyboard
+   */
+  focusedBackgroundColor?: string;
 }
 
 /**
@@ -190,6 +243,30 @@ export interface ToastOptions {
   loading?: TypeToastOptions;
 }
 
+/**
+ * Passed to custom toast content
+ */
+export interface ToastContentContext {
+  /** ID of the toast rendering the content */
+  id: string | number;
+  /** Dismiss the toast */
+  dismiss: () => void;
+}
+
+/**
+ * Factory for custom toast content, see `toast.custom()`
+ *
+ * @example
+ * ```ts
+ * const content: ToastContentFactory = (ctx, { dismiss }) =>
+ *   new TextRenderable(ctx, { content: 'Click to close', onMouseUp: dismiss });
+ * ```
+ */
+export type ToastContentFactory = (
+  ctx: RenderContext,
+  context: ToastContentContext,
+) => Renderable;
+
 /**
  * Internal toast representation
  */
@@ -201,14 +278,40 @@ export interface Toast {
   duration?: number;
   dismissible?: boolean;
   icon?: string;
+  /** Single action button - shorthand for one entry in `actions` */
   action?: Action;
+  /** Action buttons, shown after `action` */
+  actions?: Action[];
+  /** Cancel button, shown before the actions in a muted color */
+  cancel?: Action;
   onDismiss?: (toast: Toast) => void;
   onAutoClose?: (toast: Toast) => void;
   closeButton?: boolean;
+  /**
+   * ID of the toaster that renders this toast
+   *
+   * Toasts without one are rendered by toasters without a `toasterId`.
+   */
+  toasterId?: string;
   /**
    * Per-toast style overrides (highest priority)
    */
   style?: Partial<ToastStyle>;
+  /**
+   * Custom content replacing the icon, title, description and action
+   *
+   * Set by `toast.custom()`.
+   */
+  content?: ToastContentFactory;
+}
+
+/**
+ * Internal toast type with adapter-specific properties.
+ * @internal
+ */
+export interface InternalToast extends Toast {
+  /** @internal Used by React/Solid bindings to store JSX portal content. */
+  [JSX_CONTENT_KEY]?: unknown;
 }
 
 /**
@@ -225,7 +328,9 @@ export interface ToastToDismiss {
  * This is the options object passed to `toast()`, `toast.success()`, etc.
  */
 export interface ExternalToast
-  extends Partial<Omit<Toast, "id" | "type" | "title" | "promise">> {
+  extends Partial<
+    Omit<Toast, "id" | "type" | "title" | "promise" | "content">
+  > {
   id?: string | number;
 }
 
@@ -344,6 +449,32 @@ export interface ToasterOffset {
  * Toaster component options
  */
 export interface ToasterOptions {
+  /**
+   * Renderable ID of the toaster, generated when omitted.
+   * Not used for targeting, see `toasterId`.
+   */
+  id?: string;
+
+  /**
+   * Only toasts created with a matching `toasterId` are rendered by this
+   * toaster. Toasters without a `toasterId` render the toasts that have none.
+   *
+   * @example
+   * ```ts
+   * new ToasterRenderable(ctx, { toasterId: 'sidebar', position: 'top-left' });
+   * toast('Synced', { toasterId: 'sidebar' });
+   * ```
+   */
+  toasterId?: string;
+
+  /**
+   * Toast store to render toasts from
+   *
+   * Defaults to the global store behind `toast()`. Pass a store from
+   * `createToastStore()` to isolate toasts, e.g. in tests or embedded sub-apps.
+   */
+  store?: ToastStore;
+
   /**
    * Position of the toaster on screen
    * @default 'bottom-right'
@@ -357,7 +488,8 @@ export interface ToasterOptions {
   gap?: number;
 
   /**
-   * Maximum number of visible toasts in stack mode
+   * Maximum number of visible toasts in stack mode. Older toasts wait in
+   * an overflow ("+3 more") and come back as visible toasts leave.
    * @default 3
    */
   visibleToasts?: number;
@@ -393,6 +525,28 @@ export interface ToasterOptions {
    */
   stackingMode?: StackingMode;
 
+  /**
+   * Always show stacked toasts in full. By default older toasts collapse
+   * into one-row stubs behind the newest and expand on hover or `expandHotkey`.
+   * Stack mode only.
+   * @default false
+   */
+  expand?: boolean;
+
+  /**
+   * Key binding that toggles the collapsed stack open and closed,
+   * e.g. `"ctrl+t"`. Stack mode only.
+   */
+  expandHotkey?: string;
+
+  /**
+   * Key binding that moves keyboard focus to the toaster, e.g. `"alt+t"`.
+   * While focused, all timers are paused, Up/Down select a toast, Enter
+   * triggers its action and Delete/Escape dismiss it. Press the hotkey
+   * again to return focus.
+   */
+  hotkey?: string;
+
   /**
    * Maximum width for toasts
    * @default 60
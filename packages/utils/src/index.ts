@@ -8,4 +8,12 @@
 export type { BorderConfig, BorderStyle, Padding, PaddingInput } from "./types";
 
 // Utils
-export { mergeStyles, normalizeOpacity, resolvePadding } from "./utils";
+export {
+  createKeyMatcher,
+  type KeyInput,
+  type KeyMatcher,
+  matchesKeyBinding,
+  mergeStyles,
+  normalizeOpacity,
+  resolvePadding,
+} from "./utils";
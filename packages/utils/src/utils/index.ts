@@ -2,6 +2,13 @@
  * Shared utility functions for OpenTUI UI components
  */
 
+// Key binding utilities
+export {
+  createKeyMatcher,
+  type KeyInput,
+  type KeyMatcher,
+  matchesKeyBinding,
+} from "./keys";
 // Opacity utilities
 export { normalizeOpacity } from "./opacity";
 // Padding utilities
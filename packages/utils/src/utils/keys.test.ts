@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import { createKeyMatcher, matchesKeyBinding } from "./keys";
+
+describe("createKeyMatcher", () => {
+  test("requires modifiers to match exactly", () => {
+    const matches = createKeyMatcher("ctrl+s");
+
+    expect(matches({ name: "s", ctrl: true })).toBe(true);
+    expect(matches({ name: "s" })).toBe(false);
+    expect(matches({ name: "s", ctrl: true, shift: true })).toBe(false);
+  });
+
+  test("matches any of several bindings and resolves aliases", () => {
+    const matches = createKeyMatcher(["esc", "alt+q"]);
+
+    expect(matches({ name: "escape" })).toBe(true);
+    expect(matches({ name: "q", option: true })).toBe(true);
+    expect(matches({ name: "q" })).toBe(false);
+  });
+
+  test("binds the plus key and uppercase letters", () => {
+    expect(createKeyMatcher("ctrl++")({ name: "+", ctrl: true })).toBe(true);
+    expect(createKeyMatcher("G")({ name: "g", shift: true })).toBe(true);
+    expect(createKeyMatcher("?")({ name: "?", shift: true })).toBe(true);
+  });
+
+  test("throws on unknown modifiers when created, with the caller name", () => {
+    expect(() => createKeyMatcher("hyper+k", "@opentui-ui/toast")).toThrow(
+      '[@opentui-ui/toast] Unknown modifier "hyper" in key binding "hyper+k".',
+    );
+  });
+});
+
+describe("matchesKeyBinding", () => {
+  test("matches like a one-off matcher", () => {
+    expect(matchesKeyBinding({ name: "y" }, ["y", "return"])).toBe(true);
+    expect(matchesKeyBinding({ name: "y", ctrl: true }, "y")).toBe(false);
+    expect(matchesKeyBinding({}, "y")).toBe(false);
+  });
+});
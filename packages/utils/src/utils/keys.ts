@@ -0,0 +1,144 @@
+/**
+ * Key binding utilities
+ *
+ * Matches key events against bindings like "ctrl+s" or "shift+tab".
+ */
+
+/** The parts of a key event that key bindings match against. */
+export interface KeyInput {
+  name?: string;
+  ctrl?: boolean;
+  meta?: boolean;
+  shift?: boolean;
+  option?: boolean;
+}
+
+const MODIFIERS = ["ctrl", "meta", "shift", "option"] as const;
+
+type KeyModifier = (typeof MODIFIERS)[number];
+
+interface ParsedKeyBinding {
+  name: string;
+  modifiers: Record<KeyModifier, boolean>;
+  /** Symbols like "?" are typed with shift on some layouts; don't require it either way. */
+  ignoreShift: boolean;
+}
+
+const MODIFIER_ALIASES: Record<string, KeyModifier> = {
+  ctrl: "ctrl",
+  control: "ctrl",
+  meta: "meta",
+  shift: "shift",
+  option: "option",
+  alt: "option",
+};
+
+const NAME_ALIASES: Record<string, string> = {
+  enter: "return",
+  esc: "escape",
+};
+
+function parseKeyBinding(binding: string, caller: string): ParsedKeyBinding {
+  const modifiers: Record<KeyModifier, boolean> = {
+    ctrl: false,
+    meta: false,
+    shift: false,
+    option: false,
+  };
+
+  // The last part is the key, so "ctrl++" binds the plus key
+  const separator =
+    binding.length > 1 ? binding.lastIndexOf("+", binding.length - 2) : -1;
+  const key = binding.slice(separator + 1);
+  const prefix = separator > 0 ? binding.slice(0, separator).split("+") : [];
+
+  for (const part of prefix) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) {
+      throw new Error(
+        `[${caller}] Unknown modifier "${part}" in key binding "${binding}".`,
+      );
+    }
+    modifiers[modifier] = true;
+  }
+
+  let name = key;
+  if (name.length === 1 && name !== name.toLowerCase()) {
+    modifiers.shift = true;
+  }
+  name = name.toLowerCase();
+
+  return {
+    name: NAME_ALIASES[name] ?? name,
+    modifiers,
+    ignoreShift: name.length === 1 && !/[a-z0-9]/.test(name),
+  };
+}
+
+/** Tests a key event against bindings parsed ahead of time. */
+export type KeyMatcher = (key: KeyInput) => boolean;
+
+/**
+ * Parse a binding or several bindings once, for matching many key events.
+ * Prefer this over `matchesKeyBinding` in handlers that see every keypress.
+ *
+ * @param keys - A binding such as `"ctrl+s"`, or a list of bindings
+ * @param caller - Package name used in error messages
+ *
+ * @example
+ * ```ts
+ * const isSave = createKeyMatcher("ctrl+s");
+ * renderer.keyInput.on("keypress", (key) => {
+ *   if (isSave(key)) save();
+ * });
+ * ```
+ *
+ * @throws {Error} If a binding uses an unknown modifier
+ */
+export function createKeyMatcher(
+  keys: string | readonly string[],
+  caller: string = "@opentui-ui/utils",
+): KeyMatcher {
+  const bindings = (typeof keys === "string" ? [keys] : keys).map((binding) =>
+    parseKeyBinding(binding, caller),
+  );
+
+  return (key) => {
+    const name = key.name?.toLowerCase();
+    if (!name) return false;
+
+    return bindings.some(
+      (parsed) =>
+        parsed.name === name &&
+        MODIFIERS.every(
+          (modifier) =>
+            (modifier === "shift" && parsed.ignoreShift) ||
+            parsed.modifiers[modifier] === (key[modifier] === true),
+        ),
+    );
+  };
+}
+
+/**
+ * Whether a key event matches a binding or any of several bindings.
+ * Modifiers must match exactly, so `"y"` doesn't match Ctrl+Y.
+ *
+ * @param key - The key event to test
+ * @param keys - A binding such as `"ctrl+s"`, or a list of bindings
+ * @param caller - Package name used in error messages
+ *
+ * @example
+ * ```ts
+ * matchesKeyBinding(key, "ctrl+s");
+ * matchesKeyBinding(key, ["y", "return"]);
+ * ```
+ *
+ * @throws {Error} If a binding uses an unknown modifier
+ */
+export function matchesKeyBinding(
+  key: KeyInput,
+  keys: string | readonly string[],
+  caller: string = "@opentui-ui/utils",
+): boolean {
+  return createKeyMatcher(keys, caller)(key);
+}